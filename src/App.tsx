@@ -1,5 +1,6 @@
 import React from "react";
 import ExerciseTracker from "./components/ExerciseTracker";
+import PosePipelineProvider from "./components/PosePipelineProvider";
 
 export default function App() {
   return (
@@ -16,7 +17,9 @@ export default function App() {
       }}>
         Poshur
       </h1>
-      <ExerciseTracker />
+      <PosePipelineProvider>
+        <ExerciseTracker />
+      </PosePipelineProvider>
     </div>
   );
 }
@@ -0,0 +1,28 @@
+import { useState } from "react";
+import { Card } from "./Shell";
+import type { CheckIn } from "./session/store";
+
+export default function CheckInForm({ title, submitLabel, onSubmit }: {
+  title: string; submitLabel: string; onSubmit: (c: CheckIn) => void;
+}) {
+  const [pain, setPain] = useState(3);
+  const [legSymptoms, setLegSymptoms] = useState(false);
+
+  return (
+    <Card title={title}>
+      <div style={{ display:"grid", gap:10 }}>
+        <label>Pain right now (0–10): <input type="range" min={0} max={10} value={pain}
+          onChange={(e)=>setPain(parseInt(e.target.value))}/> <b>{pain}</b></label>
+        <label><input type="checkbox" checked={legSymptoms} onChange={(e)=>setLegSymptoms(e.target.checked)}/> Pain, tingling or numbness spreading into a leg</label>
+        <div>
+          <button
+            onClick={()=>onSubmit({ pain, legSymptoms, at: Date.now() })}
+            style={{ background:"#111", color:"#fff", borderRadius:8, padding:"8px 12px" }}
+          >
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </Card>
+  );
+}
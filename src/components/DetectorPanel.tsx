@@ -0,0 +1,59 @@
+import { missingKeypoints } from "./camera/detector";
+import { DETECTOR_BACKENDS, DETECTOR_MODELS } from "./camera/detectorConfig";
+import type { DetectorBackend, DetectorModel, DetectorSettings } from "./camera/detectorConfig";
+import type { ExerciseDef } from "./exercises/registry";
+
+const joints = (names: string[]) => [...new Set(names.map(n => n.replace(/^(left|right)_/, "").replace("_", " ")))].join(", ");
+
+/**
+ * Model and backend choice. Says when the browser fell back to a slower
+ * backend, and when the model can't see joints the current exercise uses.
+ */
+export default function DetectorPanel({ settings, onChange, backend, exercise }: {
+  settings: DetectorSettings;
+  onChange: (d: DetectorSettings) => void;
+  /** Backend actually running, once the model has loaded. */
+  backend: DetectorBackend | null;
+  exercise: ExerciseDef;
+}) {
+  const missing = missingKeypoints(settings.model, exercise.requiredKeypoints);
+  const extra = missingKeypoints(settings.model, exercise.extraKeypoints ?? []);
+
+  return (
+    <details style={{ fontSize: 13, color: "#555" }}>
+      <summary style={{ cursor: "pointer" }}>
+        Detector: {DETECTOR_MODELS[settings.model].name} on {backend ? DETECTOR_BACKENDS[backend] : "…"}
+      </summary>
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", marginTop: 6 }}>
+        <label>
+          Model{" "}
+          <select value={settings.model} onChange={(e) => onChange({ ...settings, model: e.target.value as DetectorModel })}>
+            {(Object.keys(DETECTOR_MODELS) as DetectorModel[]).map(m => <option key={m} value={m}>{DETECTOR_MODELS[m].name}</option>)}
+          </select>
+        </label>
+        <label>
+          Backend{" "}
+          <select value={settings.backend} onChange={(e) => onChange({ ...settings, backend: e.target.value as DetectorBackend })}>
+            {(Object.keys(DETECTOR_BACKENDS) as DetectorBackend[]).map(b => <option key={b} value={b}>{DETECTOR_BACKENDS[b]}</option>)}
+          </select>
+        </label>
+        <span style={{ color: "#888" }}>{DETECTOR_MODELS[settings.model].description}</span>
+      </div>
+      {backend && backend !== settings.backend && (
+        <p style={{ margin: "6px 0 0", color: "#8a5a00" }}>
+          {DETECTOR_BACKENDS[settings.backend]} isn't available in this browser; using {DETECTOR_BACKENDS[backend]} instead.
+        </p>
+      )}
+      {missing.length > 0 && (
+        <p style={{ margin: "6px 0 0", color: "#c62828" }}>
+          {exercise.name} needs {joints(missing)}, which this model doesn't track.
+        </p>
+      )}
+      {extra.length > 0 && (
+        <p style={{ margin: "6px 0 0", color: "#888" }}>
+          {exercise.name} also checks {joints(extra)} with a model that tracks them (BlazePose).
+        </p>
+      )}
+    </details>
+  );
+}
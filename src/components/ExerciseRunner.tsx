@@ -1,14 +1,30 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import PoseCoach from "./PoseCoach";
+import PosePipelineProvider from "./PosePipelineProvider";
 import type { SessionItem } from "./PlanModal";
 import { Card } from "./Shell";
+import type { Side } from "./exercises/angles";
+import type { RepCount, RepPhase } from "./exercises/repCounter";
+import type { HoldState } from "./exercises/holdTimer";
+import { createCoach } from "./exercises/coach";
+import type { Coach, HoldKey, ScoredFrame } from "./exercises/coach";
+import { EXERCISES, findExercise } from "./exercises/registry";
+import type { ExerciseId } from "./exercises/registry";
+import { asymmetry, createItemTally } from "./session/tally";
+import type { ItemTally } from "./session/tally";
+import { loadSymptoms, loadVoiceSettings, saveSession, saveVoiceSettings } from "./session/store";
+import type { CheckIn, SessionRecord } from "./session/store";
+import { detectFlare } from "./session/flare";
+import type { Flare } from "./session/flare";
+import CheckInForm from "./CheckInForm";
+import VoiceControls from "./VoiceControls";
+import { createVoiceCoach, createWebSpeechSpeaker } from "./exercises/voice";
+import type { VoiceSettings } from "./exercises/voice";
+import { keepIfSame, SCORE_UI_MS } from "./camera/inference";
 
-function mapToPoseMode(name: string): "hinge"|"plank"|null {
-  const n = name.toLowerCase();
-  if (n.includes("hinge")) return "hinge";
-  if (n.includes("plank")) return "plank";
-  return null; // not tracked by vision yet
-}
+type HoldSummary = { name: string; goodSec: number; totalSec: number };
+
+const SIDES: Side[] = ["left", "right"];
 
 export default function ExerciseRunner({
   session, onUpdate
@@ -17,33 +33,173 @@ export default function ExerciseRunner({
   onUpdate?: (score: number, cues: string[]) => void;
 }) {
   const [idx, setIdx] = useState(0);
-  const [mode, setMode] = useState<"hinge"|"plank"|"none">("none");
+  const [mode, setMode] = useState<ExerciseId|"none">("none");
   const [score, setScore] = useState(0);
   const [cues, setCues] = useState<string[]>([]);
+  const [reps, setReps] = useState<RepCount>({ total: 0, left: 0, right: 0 });
+  const [phase, setPhase] = useState<RepPhase>("start");
+  // Rep target met: later reps on this step aren't counted
+  const repsDoneRef = useRef(false);
+  const lastScoreAtRef = useRef(-Infinity);
+  const [holds, setHolds] = useState<Partial<Record<HoldKey, HoldState>>>({});
+  const [lastHold, setLastHold] = useState<HoldSummary | null>(null);
+  // Scoring, reps and hold clocks for the current step, and the step it's for
+  const [coach, setCoach] = useState<Coach | null>(null);
+  const coachRef = useRef<{ name: string; coach: Coach } | null>(null);
+  const [sideScores, setSideScores] = useState<Partial<Record<Side, number>>>({});
+  const talliesRef = useRef(new Map<number, ItemTally>());
+  const tallyRef = useRef<ItemTally | null>(null);
+  const startedAtRef = useRef(Date.now());
+  // pre/post: pain check-ins around the steps; done: saved
+  const [stage, setStage] = useState<"pre"|"running"|"post"|"done">("pre");
+  const [before, setBefore] = useState<CheckIn | null>(null);
+  const [flare, setFlare] = useState<Flare | null>(null);
+  const [voice, setVoice] = useState<VoiceSettings>(loadVoiceSettings);
+  // Lazy, so the speaker and coach are built once rather than on every render
+  const [voiceCoach] = useState(() => createVoiceCoach(createWebSpeechSpeaker(), voice));
   const item = session[idx];
 
+  // Stop talking when the runner goes away
+  useEffect(() => {
+    return () => voiceCoach.reset();
+  }, [voiceCoach]);
+
+  // A new plan starts a new session record
   useEffect(() => {
-    const m = item ? mapToPoseMode(item.name) : null;
-    setMode(m ?? "none");
-  }, [idx, item]);
+    talliesRef.current = new Map();
+    setStage("pre");
+    setBefore(null);
+    setFlare(null);
+    setIdx(0);
+  }, [session]);
+
+  useEffect(() => {
+    // Only moves with a scorer are vision-tracked, stretches included (e.g. Cat–Cow)
+    const ex = item ? findExercise(item.name) : null;
+    setMode(ex?.id ?? "none");
+    // "both" only applies when the scorer can tell the sides apart
+    const perSide = item?.side === "both" && !!ex?.sided;
+    repsDoneRef.current = false;
+    setReps({ total: 0, left: 0, right: 0 });
+    setPhase("start");
+    // PoseCoach says nothing until the new move is in view; don't show the last one's score meanwhile
+    setScore(0);
+    setCues([]);
+    voiceCoach.reset();
+
+    // Report the hold we're leaving, then start a fresh coach: reps only for rep targets, a clock for timed steps
+    const prev = coachRef.current;
+    if (prev) {
+      const shots = Object.values(prev.coach.holds());
+      const goodSec = shots.reduce((a, h) => a + h.goodSec, 0);
+      const totalSec = shots.reduce((a, h) => a + h.totalSec, 0);
+      if (totalSec > 0) setLastHold({ name: prev.name, goodSec, totalSec });
+    }
+    const next = ex && item ? createCoach(ex, { reps: !!item.reps, holdSec: item.durationSec, perSide }) : null;
+    coachRef.current = next && item ? { name: item.name, coach: next } : null;
+    setCoach(next);
+    setHolds({});
+    setSideScores({});
+
+    const tallies = talliesRef.current;
+    if (item && !tallies.has(idx)) tallies.set(idx, createItemTally(item));
+    tallyRef.current = tallies.get(idx) ?? null;
+  }, [idx, item, voiceCoach]);
 
   useEffect(() => { onUpdate?.(score, cues); }, [score, cues, onUpdate]);
 
+  const target = item?.reps;
+  const bothSides = item?.side === "both" && mode !== "none" && !!EXERCISES[mode].sided;
+  const last = session.length - 1;
+  const onScore = useCallback(({ result, cues: c, visible, rep, hold }: ScoredFrame) => {
+    const { score: s, side } = result;
+    // Called every frame; the same cues again mustn't re-render the runner, and the score only catches up a few times a second
+    const now = performance.now();
+    if (now - lastScoreAtRef.current >= SCORE_UI_MS) {
+      lastScoreAtRef.current = now;
+      setScore(s);
+    }
+    setCues(prev => keepIfSame(prev, c));
+    voiceCoach.cues(c);
+    if (visible) {
+      tallyRef.current?.score(s, c, side);
+      if (side) {
+        const next = tallyRef.current?.sideScores() ?? {};
+        setSideScores(prev => prev.left === next.left && prev.right === next.right ? prev : next);
+      }
+    }
+
+    if (hold) {
+      const { key, state: h } = hold;
+      tallyRef.current?.held(h.goodSec, h.totalSec, key === "all" ? undefined : key);
+      voiceCoach.hold((coachRef.current?.coach.holdSec ?? 0) - h.goodSec, h.done);
+      // Only re-render when the displayed seconds or the gate flips
+      setHolds(all => {
+        const prev = all[key];
+        return prev && prev.goodSec === h.goodSec && prev.totalSec === h.totalSec
+          && prev.holding === h.holding && prev.done === h.done ? all : { ...all, [key]: h };
+      });
+    }
+
+    if (!rep || repsDoneRef.current) return;
+    if (rep.transition) setPhase(rep.phase);
+    if (!rep.completed) return;
+    setReps(rep.reps);
+    tallyRef.current?.repsDone(rep.reps);
+    voiceCoach.announce(bothSides && rep.side ? `${rep.side} ${rep.reps[rep.side]}` : String(rep.reps.total));
+    // Advance once the target is met on every required side (stay put on the final step)
+    const met = bothSides ? SIDES.every(sd => rep.reps[sd] >= (target ?? 0)) : rep.reps.total >= (target ?? 0);
+    if (target && met) {
+      repsDoneRef.current = true;
+      setIdx(i => Math.min(last, i + 1));
+    }
+  }, [target, bothSides, last, voiceCoach]);
+
+  const changeVoice = (v: VoiceSettings) => {
+    setVoice(v);
+    saveVoiceSettings(v);
+    voiceCoach.setSettings(v);
+  };
+
+  const start = (c: CheckIn) => {
+    setBefore(c);
+    startedAtRef.current = Date.now();
+    setStage("running");
+  };
+
+  const finish = (after: CheckIn) => {
+    const tallies = talliesRef.current;
+    const rec: SessionRecord = {
+      id: crypto.randomUUID(),
+      startedAt: startedAtRef.current,
+      endedAt: Date.now(),
+      plan: session,
+      items: session.map((it, i) => (tallies.get(i) ?? createItemTally(it)).result()),
+      symptoms: loadSymptoms(),
+      checkIn: { before: before ?? undefined, after },
+    };
+    saveSession(rec);
+    setFlare(detectFlare(rec));
+    setStage("done");
+  };
+
   const instructions = useMemo(()=>{
     if (!item) return [];
     const lines: string[] = [];
     if (item.kind === "stretch") {
       lines.push("Move gently in a comfortable range. Breathe slowly.");
+      if (mode !== "none") lines.push(...EXERCISES[mode].instructions, ...EXERCISES[mode].safety);
       if (item.name.toLowerCase().includes("cobra")) lines.push("Stop if you feel sharp leg pain or tingling.");
       if (item.durationSec) lines.push(`Timer: ${item.durationSec}s`);
     } else {
-      if (item.name.toLowerCase().includes("hinge")) lines.push("Keep shins vertical, hinge at hips, spine long.");
-      if (item.name.toLowerCase().includes("plank")) lines.push("Ribs down, hips level, press floor away.");
-      if (item.reps) lines.push(`Target: ${item.reps} slow reps`);
+      if (mode !== "none") lines.push(...EXERCISES[mode].instructions, ...EXERCISES[mode].safety);
+      if (item.durationSec && mode !== "none") lines.push(`Hold: ${item.durationSec}s of good form (clock pauses when form slips)`);
+      if (item.reps) lines.push(`Target: ${item.reps} slow reps${bothSides ? " on each side" : ""}`);
+      if (item.durationSec && bothSides) lines.push("Do both sides; each side has its own clock.");
       if (mode === "none") lines.push("Tip: This item isn’t vision-tracked yet—follow the cues above.");
     }
     return lines;
-  }, [item, mode]);
+  }, [item, mode, bothSides]);
 
   if (!item) {
     return (
@@ -53,36 +209,103 @@ export default function ExerciseRunner({
     );
   }
 
-  return (
-    <div style={{ display:"grid", gap: 12 }}>
-      <Card title={`Now: ${item.name}`}>
-        <div style={{ fontSize:14, color:"#333" }}>
-          {instructions.map((t,i)=><div key={i}>• {t}</div>)}
-        </div>
-        <div style={{ marginTop:8, fontSize:13, color:"#666" }}>
-          {mode !== "none" ? <>Live form score appears over the video.</> : <>This step is guided with text.</>}
-        </div>
+  if (stage === "pre") {
+    return <CheckInForm title="Before you start" submitLabel="Start session" onSubmit={start} />;
+  }
+  if (stage === "post") {
+    return <CheckInForm title="How do you feel now?" submitLabel="Save session" onSubmit={finish} />;
+  }
+  if (stage === "done") {
+    return (
+      <Card title="Session saved">
+        {!flare ? <div>Nice work. Your results are in the History tab.</div> :
+          <div style={{ display:"grid", gap:4, fontSize:14 }}>
+            {flare.reasons.map((r,i)=><div key={i}>• {r}</div>)}
+            <div>Your next plan will be eased back automatically. If leg symptoms or pain keep increasing, contact a clinician.</div>
+          </div>
+        }
       </Card>
+    );
+  }
 
-      {mode !== "none" ? (
-        <PoseCoach
-          mode={mode as "hinge"|"plank"}
-          onUpdate={(s, c)=>{ setScore(s); setCues(c); }}
-        />
-      ) : (
-        <div style={{
-          height: 360, display:"grid", placeItems:"center",
-          borderRadius: 12, border:"1px dashed #ccc", color:"#666"
-        }}>
-          (Stretch / non-tracked move)
-        </div>
-      )}
+  const countsReps = mode !== "none" && EXERCISES[mode].tracking.kind === "reps" && !!item.reps;
+  const timesHold = mode !== "none" && !!item.durationSec;
+  const repsMet = bothSides
+    ? SIDES.every(sd => reps[sd] >= (item.reps ?? 0))
+    : reps.total >= (item.reps ?? 0);
+  const imbalance = asymmetry(sideScores);
 
-      <div style={{ display:"flex", justifyContent:"space-between", alignItems:"center" }}>
-        <button onClick={()=>setIdx(Math.max(0, idx-1))} disabled={idx===0}>← Prev</button>
-        <div>Step {idx+1} / {session.length}</div>
-        <button onClick={()=>setIdx(Math.min(session.length-1, idx+1))} disabled={idx===session.length-1}>Next →</button>
+  // One camera for the whole session; it stays open between steps rather than reopening for each tracked one
+  return (
+    <PosePipelineProvider>
+      <div style={{ display:"grid", gap: 12 }}>
+        <Card title={`Now: ${item.name}`}>
+          <div style={{ fontSize:14, color:"#333" }}>
+            {instructions.map((t,i)=><div key={i}>• {t}</div>)}
+          </div>
+          <div style={{ marginTop:8, fontSize:13, color:"#666" }}>
+            {mode !== "none" ? <>Live form score appears over the video.</> : <>This step is guided with text.</>}
+          </div>
+          {mode !== "none" && (
+            <div style={{ marginTop:8 }}><VoiceControls settings={voice} onChange={changeVoice} /></div>
+          )}
+          {countsReps && (
+            <div style={{ marginTop:8, fontSize:14 }}>
+              <b>Reps:</b>{" "}
+              {bothSides ? <>left {reps.left} / {item.reps} · right {reps.right} / {item.reps}</> : <>{reps.total} / {item.reps}</>}{" "}
+              {repsMet
+                ? <span style={{ color:"#0f8a4b" }}>— target reached</span>
+                : <span style={{ color:"#666" }}>({phase})</span>}
+            </div>
+          )}
+          {timesHold && (bothSides ? SIDES : ["all" as const]).map(k => {
+            const hold = holds[k];
+            return (
+              <div key={k} style={{ marginTop:8, fontSize:14 }}>
+                <b>Good form{k !== "all" && ` (${k})`}:</b> {hold?.goodSec ?? 0}s / {item.durationSec}s{" "}
+                <span style={{ color:"#666" }}>(total {hold?.totalSec ?? 0}s)</span>{" "}
+                {hold?.done
+                  ? <span style={{ color:"#0f8a4b" }}>— hold complete</span>
+                  : hold && !hold.holding && <span style={{ color:"#a10f0f" }}>— paused, fix form</span>}
+              </div>
+            );
+          })}
+          {bothSides && (sideScores.left !== undefined || sideScores.right !== undefined) && (
+            <div style={{ marginTop:6, fontSize:13, color:"#666" }}>
+              Form by side: left {sideScores.left ?? "—"} · right {sideScores.right ?? "—"}
+              {imbalance && <span style={{ color:"#a15c0f" }}> — {imbalance.weaker} side {imbalance.gap} points weaker</span>}
+            </div>
+          )}
+          {lastHold && (
+            <div style={{ marginTop:6, fontSize:13, color:"#666" }}>
+              Last hold ({lastHold.name}): {lastHold.goodSec}s good form of {lastHold.totalSec}s total
+            </div>
+          )}
+        </Card>
+
+        {mode !== "none" ? (
+          <PoseCoach
+            mode={mode}
+            coach={coach}
+            onUpdate={onScore}
+          />
+        ) : (
+          <div style={{
+            height: 360, display:"grid", placeItems:"center",
+            borderRadius: 12, border:"1px dashed #ccc", color:"#666"
+          }}>
+            (Stretch / non-tracked move)
+          </div>
+        )}
+
+        <div style={{ display:"flex", justifyContent:"space-between", alignItems:"center" }}>
+          <button onClick={()=>setIdx(Math.max(0, idx-1))} disabled={idx===0}>← Prev</button>
+          <div>Step {idx+1} / {session.length}</div>
+          {idx === session.length-1
+            ? <button onClick={()=>setStage("post")}>Finish session</button>
+            : <button onClick={()=>setIdx(Math.min(session.length-1, idx+1))}>Next →</button>}
+        </div>
       </div>
-    </div>
+    </PosePipelineProvider>
   );
 }
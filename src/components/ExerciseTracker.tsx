@@ -1,366 +1,301 @@
 import { useEffect, useRef, useState } from "react";
-import * as tf from "@tensorflow/tfjs";
-import "@tensorflow/tfjs-backend-webgl";
-import * as posedetection from "@tensorflow-models/pose-detection";
-import { scoreHipHinge } from "./exercises/scoreHipHinge";
-import { scorePlank } from "./exercises/scorePlank";
-import { scoreBirdDog } from "./exercises/scoreBirdDog";
-import { scoreDeadBug } from "./exercises/scoreDeadBug";
-import { scoreWalkingPosture } from "./exercises/scoreWalkingPosture";
+import { createScorer, EXERCISES, EXERCISE_LIST } from "./exercises/registry";
+import type { ExerciseId } from "./exercises/registry";
 import type { KP } from "./exercises/angles";
-
-// Exercise configuration type
-type ExerciseConfig = {
-  name: string;
-  scoringFunction: (keypoints: KP[]) => { score: number; cues: string[] };
-  optimalPoseMarkers: { 
-    name: string; 
-    optimalRange: { min: number; max: number };
-    color: string;
-  }[];
-};
-
-// Predefined exercises
-const EXERCISES: Record<string, ExerciseConfig> = {
-  "Hip Hinge": {
-    name: "Hip Hinge",
-    scoringFunction: scoreHipHinge,
-    optimalPoseMarkers: [
-      { 
-        name: "Trunk Angle", 
-        optimalRange: { min: 110, max: 160 }, 
-        color: "#4CAF50" 
-      },
-      { 
-        name: "Knee Angle", 
-        optimalRange: { min: 155, max: 175 }, 
-        color: "#2196F3" 
-      }
-    ]
-  },
-  "Plank": {
-    name: "Plank",
-    scoringFunction: scorePlank,
-    optimalPoseMarkers: [
-      { 
-        name: "Trunk Alignment", 
-        optimalRange: { min: 165, max: 185 }, 
-        color: "#FF9800" 
-      },
-      { 
-        name: "Hip Level", 
-        optimalRange: { min: -10, max: 10 }, 
-        color: "#9C27B0" 
-      }
-    ]
-  },
-  "Bird Dog": {
-    name: "Bird Dog",
-    scoringFunction: scoreBirdDog,
-    optimalPoseMarkers: [
-      { 
-        name: "Arm Extension", 
-        optimalRange: { min: 160, max: 180 }, 
-        color: "#673AB7" 
-      },
-      { 
-        name: "Leg Extension", 
-        optimalRange: { min: 170, max: 190 }, 
-        color: "#FF5722" 
-      }
-    ]
-  },
-  "Dead Bug": {
-    name: "Dead Bug",
-    scoringFunction: scoreDeadBug,
-    optimalPoseMarkers: [
-      { 
-        name: "Arm Position", 
-        optimalRange: { min: 160, max: 190 }, 
-        color: "#3F51B5" 
-      },
-      { 
-        name: "Leg Angle", 
-        optimalRange: { min: 160, max: 190 }, 
-        color: "#009688" 
-      }
-    ]
-  }
-};
-
-// Posture assessment modes
-const POSTURE_MODES: Record<string, { 
-  name: string; 
-  scoringFunction: (keypoints: KP[]) => { score: number; cues: string[] } 
-}> = {
-  "Walking": {
-    name: "Walking Posture",
-    scoringFunction: scoreWalkingPosture
+import { createCueEngine } from "./exercises/cueEngine";
+import { createViewGate } from "./exercises/view";
+import { drawGhost, drawOverlay } from "./exercises/overlay";
+import { matchReference, withReference } from "./exercises/reference";
+import type { ReferenceMatch } from "./exercises/reference";
+import { createCalibration, scoreContext } from "./exercises/body";
+import type { BodyProfile } from "./exercises/body";
+import {
+  addDeskTime, dayKey, loadBodyProfile, loadDeskLog, loadSymptoms, loadVoiceSettings,
+  saveBodyProfile, saveVoiceSettings,
+} from "./session/store";
+import { DEFAULT_SYMPTOMS } from "./screening/symptoms";
+import { createGaitAnalyzer, MIN_STRIKES } from "./exercises/gait";
+import { assessWalking } from "./exercises/scoreWalkingPosture";
+import type { WalkingPostureAssessment } from "./exercises/scoreWalkingPosture";
+import { breakInterval, createDeskMonitor } from "./exercises/desk";
+import type { DeskLogEntry, DeskState } from "./exercises/desk";
+import { assessDesk } from "./exercises/scoreDeskPosture";
+import { scoreStandingPosture } from "./exercises/scoreStandingPosture";
+import type { StandingPostureAssessment } from "./exercises/scoreStandingPosture";
+import { createSnapshotTrigger } from "./exercises/snapshot";
+import StandingReport from "./StandingReport";
+import SourceControls, { RecordButton } from "./SourceControls";
+import type { PoseEvent } from "./camera/pipeline";
+import { usePosePipeline } from "./camera/pipelineContext";
+import { keepIfSame, SCORE_UI_MS } from "./camera/inference";
+import DetectorPanel from "./DetectorPanel";
+import InferenceReadout from "./InferenceReadout";
+import VoiceControls from "./VoiceControls";
+import { createVoiceCoach, createWebSpeechSpeaker } from "./exercises/voice";
+import type { VoiceSettings } from "./exercises/voice";
+import type { PostureSnapshot } from "./StandingReport";
+
+const EXERCISE_MODES = EXERCISE_LIST.filter(e => e.category === "exercise");
+const POSTURE_MODES = EXERCISE_LIST.filter(e => e.category === "posture");
+
+/** Seated modes run for hours; two frames a second is plenty and keeps the laptop cool. */
+const SEATED_FRAME_MS = 500;
+/** How often desk posture time is written to the daily log. */
+const DESK_SAVE_MS = 30000;
+
+const minutes = (ms: number) => ms / 60000;
+
+/** The desk panel's contents at the precision they're shown; a frame that leaves it unchanged doesn't re-render. */
+const deskPanel = (d: DeskState) => [
+  d.status, Math.round(d.calibration * 100), d.breakDue,
+  minutes(d.goodMs).toFixed(1), minutes(d.poorMs).toFixed(1),
+  minutes(d.sittingMs).toFixed(0), minutes(d.breakEveryMs).toFixed(0),
+  Math.max(0, minutes(d.breakEveryMs - d.sittingMs)).toFixed(0),
+].join("|");
+
+/**
+ * The camera frame alone, without the overlay, for the standing posture photos.
+ * A keypoint replay has no picture, so its photo is the skeleton on the dark
+ * background the live canvas shows.
+ */
+function captureFrame(video: HTMLVideoElement, width: number, height: number, kps: KP[], scaleX: number, scaleY: number): string {
+  const c = document.createElement("canvas");
+  c.width = width;
+  c.height = height;
+  const ctx = c.getContext("2d");
+  if (ctx && video.videoWidth > 0 && video.videoHeight > 0) {
+    ctx.drawImage(video, 0, 0, width, height);
+  } else if (ctx) {
+    ctx.fillStyle = "#111";
+    ctx.fillRect(0, 0, width, height);
+    drawOverlay(ctx, kps, { scaleX, scaleY });
   }
-};
+  return c.toDataURL("image/jpeg", 0.9);
+}
 
-// Combine all modes for easier selection
-const ALL_MODES = {
-  ...EXERCISES,
-  ...POSTURE_MODES
-};
+function notifyBreak() {
+  if ("Notification" in window && Notification.permission === "granted") {
+    new Notification("Time for a break", { body: "Stand up and move for 2–3 minutes." });
+  }
+}
 
 export default function Posher() {
   // State management
   const [activeTab, setActiveTab] = useState<'exercises' | 'posture'>('exercises');
-  const [currentExercise, setCurrentExercise] = useState<string>("Hip Hinge");
-  const [status, setStatus] = useState("Initializing...");
+  const [currentExercise, setCurrentExercise] = useState<ExerciseId>("hinge");
   const [score, setScore] = useState(0);
   const [cues, setCues] = useState<string[]>([]);
+  const [unknown, setUnknown] = useState<string[]>([]);
+  const [viewPrompt, setViewPrompt] = useState<string | null>(null);
+  // No stored profile means the first thing we do is calibrate
+  const [body, setBody] = useState<BodyProfile | null>(loadBodyProfile);
+  const [calibrationPrompt, setCalibrationPrompt] = useState<string | null>(null);
+  const [calibrationPct, setCalibrationPct] = useState(0);
+  const [walking, setWalking] = useState<WalkingPostureAssessment | null>(null);
+  const [desk, setDesk] = useState<DeskState | null>(null);
+  const [deskToday, setDeskToday] = useState<DeskLogEntry | null>(() => loadDeskLog()[dayKey()] ?? null);
+  const [snapshots, setSnapshots] = useState<{ front?: PostureSnapshot; side?: PostureSnapshot }>({});
+  const [standingReport, setStandingReport] = useState<StandingPostureAssessment | null>(null);
+  const [capturePct, setCapturePct] = useState(0);
+  const [voice, setVoice] = useState<VoiceSettings>(loadVoiceSettings);
+  const [notifyPermission, setNotifyPermission] = useState(() => "Notification" in window ? Notification.permission : "denied");
   const [sidebarOpen, setSidebarOpen] = useState(true);
-  const [isReady, setIsReady] = useState(false);
-
-  // Refs for camera and detection
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const detectorRef = useRef<posedetection.PoseDetector | null>(null);
 
-  // Camera and model initialization
-  useEffect(() => {
-    let cancelled = false;
-    let stream: MediaStream | null = null;
-
-    const initializeModel = async () => {
-      try {
-        // Reset readiness and existing detector
-        setIsReady(false);
-        if (detectorRef.current) {
-          detectorRef.current.dispose();
-          detectorRef.current = null;
-        }
-
-        setStatus("Initializing camera and AI model...");
-
-        // Comprehensive camera access request
-        stream = await navigator.mediaDevices.getUserMedia({
-          video: { 
-            facingMode: "user",
-            width: { ideal: 960, max: 1280 },
-            height: { ideal: 720, max: 1024 }
-          },
-          audio: false
-        });
-
-        const videoElement = videoRef.current;
-        const canvasElement = canvasRef.current;
-
-        if (!videoElement || !canvasElement) {
-          console.error('Video or Canvas element not found');
-          setStatus("Error: Video or Canvas element not initialized");
-          return;
-        }
-
-        // Set up video element
-        videoElement.srcObject = stream;
-        
-        videoElement.onloadedmetadata = async () => {
-          try {
-            await videoElement.play();
-
-            // Initialize TensorFlow backend and pose detector
-            await tf.setBackend("webgl");
-            const detector = await posedetection.createDetector(
-              posedetection.SupportedModels.MoveNet,
-              { modelType: posedetection.movenet.modelType.SINGLEPOSE_LIGHTNING }
-            );
-            
-            if (cancelled) return;
-            detectorRef.current = detector;
-
-            // Mark as ready
-            setIsReady(true);
-            setStatus("Camera and AI model ready. Position yourself fully in the frame.");
-          } catch (playError) {
-            console.error('Error playing video or initializing detector:', playError);
-            setStatus(`Initialization error: ${playError instanceof Error ? playError.message : 'Unknown error'}`);
-          }
-        };
-
-      } catch (error) {
-        console.error('Camera Initialization Error:', error);
-        
-        if (error instanceof DOMException) {
-          switch (error.name) {
-            case 'NotAllowedError':
-              setStatus("Camera access denied. Please grant camera permissions.");
-              break;
-            case 'NotFoundError':
-              setStatus("No camera found. Please connect a camera.");
-              break;
-            default:
-              setStatus(`Camera error: ${error.message}`);
-          }
-        } else {
-          setStatus(`Initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-      }
-    };
-
-    // Initial call to initialize
-    initializeModel();
-
-    // Cleanup function
-    return () => {
-      cancelled = true;
-      
-      // Stop all tracks
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
-      
-      // Dispose detector
-      detectorRef.current?.dispose();
-    };
-  }, []);
+  // Camera (or clip), model and frame loop are shared; this view scores and draws
+  const pipeline = usePosePipeline();
+  const { source, detector, sourceStatus } = pipeline;
+  const isReady = pipeline.ready;
+  const status = sourceStatus.state === "error" ? sourceStatus.message
+    : sourceStatus.state === "loading" ? (source.kind === "webcam" ? "Initializing camera..." : "Loading video...")
+    : source.kind === "webcam" ? "Camera ready. Position yourself fully in the frame."
+    : `${source.kind === "file" ? "Video" : "Recording"} loaded. Press play or step through it frame by frame.`;
 
-  // Pose detection and rendering loop
+  // Refs for drawing and scoring
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const cueEngineRef = useRef(createCueEngine());
+  const viewGateRef = useRef(createViewGate());
+  const calibrationRef = useRef(createCalibration());
+  const gaitRef = useRef(createGaitAnalyzer());
+  const lastGaitAtRef = useRef(0);
+  const lastScoreAtRef = useRef(-Infinity);
+  const deskRef = useRef(createDeskMonitor());
+  const lastDeskSaveRef = useRef(0);
+  const breakNotifiedRef = useRef(false);
+  const [voiceCoach] = useState(() => createVoiceCoach(createWebSpeechSpeaker(), voice));
+  const snapshotRef = useRef(createSnapshotTrigger());
+  const snapshotsRef = useRef<{ front?: PostureSnapshot; side?: PostureSnapshot }>({});
+
+  // Pose scoring and rendering, subscribed to the pipeline's frames
   useEffect(() => {
-    // Only start processing if ready
-    if (!isReady) return;
-
-    let animationFrameId: number;
+    // Cues from the previous exercise shouldn't linger, and each move checks its own camera view
+    cueEngineRef.current.reset();
+    voiceCoach.reset();
+    viewGateRef.current.reset();
+    gaitRef.current.reset();
+    setWalking(null);
+    const deskMonitor = deskRef.current;
+    deskMonitor.reset();
+    setDesk(null);
+    snapshotRef.current.reset();
+    snapshotsRef.current = {};
+    setSnapshots({});
+    setStandingReport(null);
+    setCapturePct(0);
+
+    const exercise = EXERCISES[currentExercise];
+    // Fresh per exercise and source, so a scorer's history doesn't carry over
+    const scorer = createScorer(exercise);
+    // Break spacing follows the desk hours entered in the symptom form
+    const breakEveryMs = breakInterval((loadSymptoms() ?? DEFAULT_SYMPTOMS).deskHours);
     const canvas = canvasRef.current;
-    const video = videoRef.current;
-    const detector = detectorRef.current;
 
-    if (!canvas || !video || !detector) {
-      console.warn('Canvas, video, or detector not initialized');
+    if (!canvas) {
+      console.warn('Canvas not initialized');
       return;
     }
 
     const ctx = canvas.getContext("2d");
-    if (!ctx) {
+    // Skeleton and ghost from the latest result, drawn over every video frame until the next one
+    const layer = document.createElement("canvas");
+    layer.width = canvas.width;
+    layer.height = canvas.height;
+    const layerCtx = layer.getContext("2d");
+    if (!ctx || !layerCtx) {
       console.warn('Could not get 2D rendering context');
       return;
     }
 
-    const processFrame = async () => {
-      try {
-        // Always clear the canvas
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        
-        // Draw video to canvas
-        if (video.videoWidth > 0 && video.videoHeight > 0) {
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        }
-
-        // Detect poses
-        const poses = await detector.estimatePoses(video, { 
-          flipHorizontal: false,
-          maxPoses: 1
-        });
-
-        const keypoints = poses[0]?.keypoints as KP[] | undefined;
-
-        if (keypoints) {
-          // Calculate scaling factors
-          const scaleX = canvas.width / video.videoWidth;
-          const scaleY = canvas.height / video.videoHeight;
+    // Scoring, cues and panels for one pose; redraws the overlay layer
+    const pose = ({ keypoints, t, size, rewound, video }: PoseEvent) => {
+      // Seeking back in a clip: debounced cues and step history no longer follow on
+      if (rewound) {
+        cueEngineRef.current.reset();
+        gaitRef.current.reset();
+        lastScoreAtRef.current = -Infinity;
+      }
+      layerCtx.clearRect(0, 0, layer.width, layer.height);
+      if (!keypoints) return;
+
+      // Calculate scaling factors
+      const scaleX = canvas.width / size.width;
+      const scaleY = canvas.height / size.height;
+
+      // Measure body proportions once so distance checks scale with the user
+      const cal = body || exercise.seated ? null : calibrationRef.current.update(keypoints, t);
+      setCalibrationPrompt(cal?.prompt ?? null);
+      setCalibrationPct(cal ? Math.round(cal.progress * 100) : 0);
+      if (cal?.profile) {
+        saveBodyProfile(cal.profile);
+        setBody(cal.profile);
+      }
 
-          // Score the current exercise
-          const exercise = ALL_MODES[currentExercise];
-          
-          let result = { score: 0, cues: ["Position your full body in frame"] };
-          
-          if (exercise) {
-            result = exercise.scoringFunction(keypoints);
+      // Score the current exercise once the user faces the way its scorer needs
+      const standing = currentExercise === "standing";
+      const shots = snapshotsRef.current;
+      // The standing assessment turns side-on for its second photo
+      const want = standing && shots.front ? "sagittal" : exercise.camera;
+      const gate = cal || exercise.seated ? null : viewGateRef.current.update(keypoints, want, t);
+      setViewPrompt(gate?.prompt ?? null);
+      let match: ReferenceMatch | null = null;
+      if (gate?.open || exercise.seated) {
+        const ctx = scoreContext(keypoints, body, t);
+        // Distance from the reference pose counts against the frame's score
+        match = exercise.reference ? matchReference(keypoints, exercise.reference, ctx.unit) : null;
+        let result = withReference(scorer(keypoints, ctx), match);
+        // Walking is judged over whole steps, not single frames
+        if (currentExercise === "walking") {
+          const gait = gaitRef.current.update(keypoints, ctx, body?.hipWidth);
+          const assessment = assessWalking(result, gait.strikes.length >= MIN_STRIKES ? gait : null);
+          result = assessment;
+          // Metrics only move step by step; refresh the panel twice a second
+          if (ctx.now - lastGaitAtRef.current > 500) {
+            lastGaitAtRef.current = ctx.now;
+            setWalking(assessment);
           }
-          
-          setScore(result.score);
-          setCues(result.cues);
-
-          // Draw keypoints
-          ctx.fillStyle = "#00FF88";
-          keypoints.forEach(kp => {
-            if ((kp.score ?? 0) > 0.5) {
-              ctx.beginPath();
-              ctx.arc(
-                kp.x * scaleX,
-                kp.y * scaleY,
-                5, 0, 2 * Math.PI
-              );
-              ctx.fill();
-            }
-          });
-
-          // Restore optimal pose markers for non-posture modes
-          if (EXERCISES[currentExercise]) {
-            (EXERCISES[currentExercise] as ExerciseConfig).optimalPoseMarkers.forEach(marker => {
-              ctx.strokeStyle = marker.color;
-              ctx.lineWidth = 3;
-            });
+        }
+        // Standing posture: hands-free front then side photo once the user holds still
+        if (standing && !shots.side) {
+          const view = shots.front ? "side" : "front";
+          if (view === "side") result = scoreStandingPosture(null, keypoints);
+          const snap = snapshotRef.current.update(keypoints, ctx.unit, gate?.view === want, ctx.now);
+          setCapturePct(Math.round(snap.progress * 100));
+          if (snap.ready) {
+            const next = { ...shots, [view]: {
+              image: captureFrame(video, canvas.width, canvas.height, keypoints, scaleX, scaleY), kps: keypoints,
+              scaleX, scaleY, width: canvas.width, height: canvas.height, at: Date.now(),
+            } };
+            snapshotsRef.current = next;
+            setSnapshots(next);
+            snapshotRef.current.reset();
+            viewGateRef.current.reset();
+            if (next.front && next.side) setStandingReport(scoreStandingPosture(next.front.kps, next.side.kps));
+          }
+        }
+        // Desk posture is judged against the user's own neutral, over hours
+        if (exercise.seated) {
+          const state = deskMonitor.update(keypoints, ctx.now, breakEveryMs);
+          result = assessDesk(result, state);
+          setDesk(prev => prev && deskPanel(prev) === deskPanel(state) ? prev : state);
+          if (state.breakDue && !breakNotifiedRef.current) {
+            notifyBreak();
+            voiceCoach.announce("Time for a break");
+          }
+          breakNotifiedRef.current = state.breakDue;
+          if (ctx.now - lastDeskSaveRef.current > DESK_SAVE_MS) {
+            lastDeskSaveRef.current = ctx.now;
+            setDeskToday(addDeskTime(deskMonitor.drain()));
           }
         }
-      } catch (error) {
-        console.error("Error in pose detection:", error);
-        setStatus(`Pose detection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        // The overlay follows every frame; the panel's score catches up a few times a second
+        if (ctx.now - lastScoreAtRef.current >= SCORE_UI_MS) {
+          lastScoreAtRef.current = ctx.now;
+          setScore(result.score);
+        }
+        const shown = cueEngineRef.current.update(result.cues, t);
+        // Same cues as last frame: no re-render
+        setCues(c => keepIfSame(c, shown));
+        voiceCoach.cues(shown);
+        setUnknown(u => keepIfSame(u, result.unknown ?? []));
+      } else {
+        setScore(0);
+        setCues(c => c.length ? [] : c);
+        setUnknown(u => u.length ? [] : u);
       }
 
-      // Continue animation loop
-      animationFrameId = requestAnimationFrame(processFrame);
+      // Skeleton with angle labels against each marker's range
+      if (match) drawGhost(layerCtx, match, { scaleX, scaleY });
+      drawOverlay(layerCtx, keypoints, { scaleX, scaleY, markers: exercise.markers });
     };
 
-    // Start the processing loop
-    animationFrameId = requestAnimationFrame(processFrame);
+    const frame = (video: HTMLVideoElement) => {
+      // Always clear the canvas
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    // Cleanup function
-    return () => {
-      cancelAnimationFrame(animationFrameId);
-    };
-  }, [currentExercise, isReady]);
-
-  // Helper function to check full-body visibility
-  const checkFullBodyVisibility = (keypoints: KP[]): { 
-    isFullBodyVisible: boolean; 
-    missingBodyParts: string[];
-    isTooClose: boolean;
-  } => {
-    const requiredBodyParts = [
-      "left_shoulder", "right_shoulder",
-      "left_hip", "right_hip", 
-      "left_knee", "right_knee",
-      "left_ankle", "right_ankle"
-    ];
-
-    // Check visibility of key body parts
-    const missingBodyParts = requiredBodyParts.filter(part => 
-      !keypoints.some(kp => 
-        kp.name === part && (kp.score ?? 0) > 0.5
-      )
-    );
-
-    // Determine if user is too close (by checking relative distances)
-    const getKeypoint = (name: string) => 
-      keypoints.find(kp => kp.name === name) ?? { x: 0, y: 0, score: 0 };
-
-    const shoulder = {
-      left: getKeypoint("left_shoulder"),
-      right: getKeypoint("right_shoulder")
-    };
-    const hip = {
-      left: getKeypoint("left_hip"),
-      right: getKeypoint("right_hip")
+      // Draw video to canvas; a keypoint replay has no picture, just the skeleton
+      if (video.videoWidth > 0 && video.videoHeight > 0) {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      } else if (source.keypoints) {
+        ctx.fillStyle = "#111";
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      ctx.drawImage(layer, 0, 0);
     };
 
-    // Calculate vertical distance between shoulders and hips
-    const verticalDistance = Math.abs(
-      ((shoulder.left.y + shoulder.right.y) / 2) - 
-      ((hip.left.y + hip.right.y) / 2)
-    );
+    // Seated modes don't need every frame
+    const unsubscribe = pipeline.subscribe({ frame, pose, intervalMs: exercise.seated ? SEATED_FRAME_MS : undefined });
 
-    // If vertical distance is too small, user is likely too close
-    const isTooClose = verticalDistance < 100; // Adjust this threshold as needed
-
-    return {
-      isFullBodyVisible: missingBodyParts.length === 0,
-      missingBodyParts,
-      isTooClose
+    // Cleanup function
+    return () => {
+      unsubscribe();
+      voiceCoach.reset();
+      if (exercise.seated) setDeskToday(addDeskTime(deskMonitor.drain()));
     };
+  }, [currentExercise, body, pipeline, source, voiceCoach]);
+
+  const changeVoice = (v: VoiceSettings) => {
+    setVoice(v);
+    saveVoiceSettings(v);
+    voiceCoach.setSettings(v);
   };
 
   // Render method
@@ -450,37 +385,37 @@ export default function Posher() {
             padding: '10px 0'
           }}>
             {activeTab === 'exercises' ? (
-              Object.keys(EXERCISES).map(exercise => (
+              EXERCISE_MODES.map(exercise => (
                 <button 
-                  key={exercise}
-                  onClick={() => setCurrentExercise(exercise)}
+                  key={exercise.id}
+                  onClick={() => setCurrentExercise(exercise.id)}
                   style={{
                     width: '100%',
                     padding: '10px 15px',
                     textAlign: 'left',
-                    background: currentExercise === exercise ? '#f0f0f0' : 'transparent',
+                    background: currentExercise === exercise.id ? '#f0f0f0' : 'transparent',
                     border: 'none',
                     cursor: 'pointer'
                   }}
                 >
-                  {exercise}
+                  {exercise.name}
                 </button>
               ))
             ) : (
-              Object.keys(POSTURE_MODES).map(mode => (
+              POSTURE_MODES.map(mode => (
                 <button 
-                  key={mode}
-                  onClick={() => setCurrentExercise(mode)}
+                  key={mode.id}
+                  onClick={() => setCurrentExercise(mode.id)}
                   style={{
                     width: '100%',
                     padding: '10px 15px',
                     textAlign: 'left',
-                    background: currentExercise === mode ? '#f0f0f0' : 'transparent',
+                    background: currentExercise === mode.id ? '#f0f0f0' : 'transparent',
                     border: 'none',
                     cursor: 'pointer'
                   }}
                 >
-                  {mode} Posture
+                  {mode.name}
                 </button>
               ))
             )}
@@ -506,11 +441,6 @@ export default function Posher() {
           borderRadius: 12,
           overflow: 'hidden'
         }}>
-          <video 
-            ref={videoRef} 
-            style={{ display: 'none' }} 
-            playsInline 
-          />
           <canvas 
             ref={canvasRef}
             width={960}
@@ -552,7 +482,7 @@ export default function Posher() {
                   animation: 'spin 1s linear infinite',
                   margin: '0 auto 20px'
                 }}></div>
-                <p>{status}</p>
+                <p>{source.keypoints || pipeline.modelStatus.state === "ready" ? status : pipeline.modelStatus.message}</p>
               </div>
             </div>
           )}
@@ -571,14 +501,31 @@ export default function Posher() {
             alignItems: 'center'
           }}>
             <div>
-              <strong>Current Mode:</strong> {currentExercise}
+              <strong>Current Mode:</strong> {EXERCISES[currentExercise].name}
             </div>
+            {!source.keypoints && <InferenceReadout stats={pipeline.inference} inWorker={detector?.inWorker} />}
             <div>
               <strong>Score:</strong> {score.toFixed(0)}
             </div>
           </div>
         </div>
 
+        {/* Camera or uploaded clip */}
+        <div style={{ maxWidth: 960, width: '100%', margin: '10px auto 0' }}>
+          <SourceControls source={source} onChange={pipeline.setSource} />
+          <div style={{ marginTop: 6 }}>
+            <RecordButton recorder={pipeline.recorder} exercise={currentExercise} size={pipeline.frameSize} />
+          </div>
+          <div style={{ marginTop: 6 }}>
+            <DetectorPanel
+              settings={pipeline.detectorSettings}
+              onChange={pipeline.setDetectorSettings}
+              backend={detector?.backend ?? null}
+              exercise={EXERCISES[currentExercise]}
+            />
+          </div>
+        </div>
+
         {/* Cues and Recommendations */}
         <div style={{
           marginTop: 16,
@@ -594,6 +541,16 @@ export default function Posher() {
           <h3 style={{ margin: 0, marginBottom: 10, color: '#333' }}>
             {activeTab === 'posture' ? 'Posture Recommendations' : 'Exercise Cues'}
           </h3>
+          {calibrationPrompt && (
+            <p style={{ margin: 0, marginBottom: 10, padding: '8px 12px', borderRadius: 6, background: '#e6f3ff', color: '#0b4a8b' }}>
+              Calibrating body proportions ({calibrationPct}%): {calibrationPrompt}
+            </p>
+          )}
+          {viewPrompt && (
+            <p style={{ margin: 0, marginBottom: 10, padding: '8px 12px', borderRadius: 6, background: '#fff8e1', color: '#8a5a00' }}>
+              ↻ {viewPrompt} to start scoring.
+            </p>
+          )}
           <div style={{ 
             flexGrow: 1, 
             display: 'flex', 
@@ -631,7 +588,160 @@ export default function Posher() {
               </p>
             )}
           </div>
+          {body && (
+            <button
+              onClick={() => { calibrationRef.current.reset(); setBody(null); }}
+              style={{ alignSelf: 'flex-end', marginTop: 8, background: 'none', border: '1px solid #ddd', borderRadius: 6, padding: '4px 10px', cursor: 'pointer', color: '#666' }}
+            >
+              Recalibrate body
+            </button>
+          )}
+          {unknown.length > 0 && (
+            <p style={{ margin: 0, marginTop: 8, fontSize: 13, color: '#999' }}>
+              Can't assess {unknown.join(', ')} — those joints aren't clearly in view.
+            </p>
+          )}
+          {/* Legend for the angle labels drawn on the video */}
+          {EXERCISES[currentExercise].markers.some(m => m.joints) && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, marginTop: 8, fontSize: 13, color: '#666' }}>
+              {EXERCISES[currentExercise].markers.filter(m => m.joints).map(m => (
+                <span key={m.name}>
+                  <span style={{ display: 'inline-block', width: 10, height: 10, borderRadius: 2, marginRight: 4, background: m.color }} />
+                  {m.name} {m.optimalRange.min}–{m.optimalRange.max}°
+                </span>
+              ))}
+            </div>
+          )}
+          <div style={{ marginTop: 8 }}>
+            <VoiceControls settings={voice} onChange={changeVoice} />
+          </div>
         </div>
+
+        {/* Gait metrics for walking mode */}
+        {currentExercise === "walking" && (
+          <div style={{
+            marginTop: 16,
+            background: '#fff',
+            borderRadius: 8,
+            padding: '15px',
+            boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+          }}>
+            <h3 style={{ margin: 0, marginBottom: 10, color: '#333' }}>Gait Analysis</h3>
+            {!walking?.gait ? (
+              <p style={{ margin: 0, color: '#666' }}>Walk across the frame side-on for a few steps…</p>
+            ) : (
+              <>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))', gap: 10, color: '#333' }}>
+                  <Stat label="Cadence" value={walking.gait.cadence} unit="steps/min" />
+                  <Stat label="Step length L" value={walking.gait.stepLength?.left ?? null} unit="torso" digits={2} />
+                  <Stat label="Step length R" value={walking.gait.stepLength?.right ?? null} unit="torso" digits={2} />
+                  <Stat label="Step asymmetry" value={walking.gait.symmetry} unit="%" />
+                  <Stat label="Trunk lean" value={walking.gait.trunkLean} unit="°" />
+                  <Stat label="Trunk sway" value={walking.gait.trunkSway} unit="°" />
+                  <Stat label="Pelvic drop" value={walking.gait.pelvicDrop} unit="°" />
+                </div>
+                <div style={{ marginTop: 12, color: '#444' }}>
+                  <strong>Recommended:</strong> {walking.recommendations.exercises.join(', ')}{' '}
+                  <span style={{ color: '#666' }}>
+                    — {walking.recommendations.duration} min, {walking.recommendations.frequency}
+                  </span>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Standing assessment: capture progress, then the report */}
+        {currentExercise === "standing" && (standingReport && snapshots.front && snapshots.side ? (
+          <StandingReport
+            report={standingReport}
+            front={snapshots.front}
+            side={snapshots.side}
+            onRetake={() => {
+              snapshotRef.current.reset();
+              viewGateRef.current.reset();
+              snapshotsRef.current = {};
+              setSnapshots({});
+              setStandingReport(null);
+              setCapturePct(0);
+            }}
+          />
+        ) : (
+          <div style={{
+            marginTop: 16,
+            background: '#fff',
+            borderRadius: 8,
+            padding: '15px',
+            boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+          }}>
+            <h3 style={{ margin: 0, marginBottom: 10, color: '#333' }}>Standing Posture Assessment</h3>
+            <p style={{ margin: 0, color: '#666' }}>
+              Photo {snapshots.front ? 2 : 1} of 2: {snapshots.front ? 'turn sideways' : 'face the camera'}, stand relaxed with arms by your sides and hold still.
+              {capturePct > 0 && ` Capturing… ${capturePct}%`}
+            </p>
+          </div>
+        ))}
+
+        {/* Time in good vs poor posture and break reminders for desk mode */}
+        {EXERCISES[currentExercise].seated && (
+          <div style={{
+            marginTop: 16,
+            background: '#fff',
+            borderRadius: 8,
+            padding: '15px',
+            boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+          }}>
+            <h3 style={{ margin: 0, marginBottom: 10, color: '#333' }}>Desk Posture Monitor</h3>
+            {desk?.breakDue && (
+              <div style={{ marginBottom: 10, padding: '8px 12px', borderRadius: 6, background: '#fdecea', color: '#8b1a1a', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 10 }}>
+                <span>You've been sitting for {minutes(desk.sittingMs).toFixed(0)} min — stand up and move for 2–3 minutes.</span>
+                <button
+                  onClick={() => deskRef.current.takeBreak()}
+                  style={{ background: '#8b1a1a', color: '#fff', border: 'none', borderRadius: 6, padding: '4px 10px', cursor: 'pointer' }}
+                >
+                  I took a break
+                </button>
+              </div>
+            )}
+            {!desk || desk.status === "calibrating" ? (
+              <p style={{ margin: 0, color: '#666' }}>
+                Recording your neutral posture{desk ? ` (${Math.round(desk.calibration * 100)}%)` : ''}: sit tall in your usual working position, head and shoulders in view…
+              </p>
+            ) : (
+              <>
+                <p style={{ margin: 0, marginBottom: 10, color: desk.status === "poor" ? '#8a5a00' : '#2e7d32' }}>
+                  {desk.status === "away" ? "Away from the desk" : desk.status === "poor" ? "Posture has drifted from neutral" : "Good posture"}
+                </p>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))', gap: 10, color: '#333' }}>
+                  <Stat label="Good posture" value={minutes(desk.goodMs)} unit="min" digits={1} />
+                  <Stat label="Poor posture" value={minutes(desk.poorMs)} unit="min" digits={1} />
+                  <Stat label="Sitting" value={minutes(desk.sittingMs)} unit="min" />
+                  <Stat label="Next break in" value={Math.max(0, minutes(desk.breakEveryMs - desk.sittingMs))} unit="min" />
+                </div>
+              </>
+            )}
+            <p style={{ margin: 0, marginTop: 10, fontSize: 13, color: '#666' }}>
+              Breaks every {desk ? minutes(desk.breakEveryMs) : '—'} min, based on the desk hours in your symptom form.
+              {deskToday && ` Today: ${minutes(deskToday.goodMs).toFixed(0)} min good, ${minutes(deskToday.poorMs).toFixed(0)} min poor, ${deskToday.breaks} breaks.`}
+            </p>
+            <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 8 }}>
+              {notifyPermission === "default" && (
+                <button
+                  onClick={() => Notification.requestPermission().then(setNotifyPermission)}
+                  style={{ background: 'none', border: '1px solid #ddd', borderRadius: 6, padding: '4px 10px', cursor: 'pointer', color: '#666' }}
+                >
+                  Notify me about breaks
+                </button>
+              )}
+              <button
+                onClick={() => deskRef.current.resetNeutral()}
+                style={{ background: 'none', border: '1px solid #ddd', borderRadius: 6, padding: '4px 10px', cursor: 'pointer', color: '#666' }}
+              >
+                Reset neutral
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Add a global style for the spinner animation */}
@@ -644,3 +754,14 @@ export default function Posher() {
     </div>
   );
 }
+
+function Stat({ label, value, unit, digits = 0 }: { label: string; value: number | null; unit: string; digits?: number }) {
+  return (
+    <div style={{ padding: '8px 10px', background: '#f7f9fc', borderRadius: 6 }}>
+      <div style={{ fontSize: 12, color: '#666' }}>{label}</div>
+      <div style={{ fontSize: 18, fontWeight: 600 }}>
+        {value === null ? '—' : value.toFixed(digits)} <span style={{ fontSize: 12, fontWeight: 400, color: '#888' }}>{unit}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import type { InferenceStats } from "./camera/inference";
+
+/** Model frame rate and latency, refreshed once a second by the loop. */
+export default function InferenceReadout({ stats, inWorker }: { stats: InferenceStats | null; inWorker?: boolean }) {
+  if (!stats) return null;
+  const skipped = Math.round(stats.skipped * 100);
+  return (
+    <span
+      style={{ fontVariantNumeric: "tabular-nums", fontSize: 13, opacity: 0.8 }}
+      title="Frames the pose model processes per second, and how long each takes"
+    >
+      {stats.fps.toFixed(0)} fps · {stats.latencyMs === null ? "–" : Math.round(stats.latencyMs)} ms
+      {skipped > 0 && ` · ${skipped}% frames skipped`}
+      {inWorker === false && " · on main thread"}
+    </span>
+  );
+}
@@ -2,6 +2,9 @@ import React, { useMemo, useState } from "react";
 import Modal from "./Modal";
 import { Card, Tag } from "./Shell";
 import SymptomForm, { type SymptomData } from "./SymptomForm";
+import { loadSymptoms, saveSymptoms, useSessionHistory } from "./session/store";
+import { currentFlare, regressPlan } from "./session/flare";
+import { screen as screenSymptoms } from "./screening/screen";
 
 export type SessionItem = { kind: "stretch" | "exercise"; name: string; durationSec?: number; reps?: number; side?: "left"|"right"|"both"; };
 
@@ -11,19 +14,13 @@ export default function PlanModal({
   open: boolean; onClose: () => void; lastScore: number; cues: string[];
   onUsePlan: (items: SessionItem[]) => void;
 }) {
-  const [symptoms, setSymptoms] = useState<SymptomData | null>(null);
+  // Restore what was entered last time so a reload doesn't lose it
+  const [symptoms, setSymptoms] = useState<SymptomData | null>(loadSymptoms);
+  const updateSymptoms = (s: SymptomData) => { setSymptoms(s); saveSymptoms(s); };
+  const history = useSessionHistory();
+  const flare = useMemo(() => currentFlare(history), [history]);
 
-  const screen = useMemo(()=>{
-    if (!symptoms) return null;
-    const red = symptoms.bladderBowel || symptoms.numbness || symptoms.fever || symptoms.trauma;
-    const acute = symptoms.durationDays < 42;
-    const severity = symptoms.painWorst >= 8;
-    if (red) return { tone:"bad", label:"See a clinician urgently", notes:["Red flags selected. Seek medical assessment."] };
-    if (severity) return { tone:"warn", label:"High pain — go gentle", notes:["Short, gentle mobility only. If worsening, contact a clinician."] };
-    return { tone:"good", label: acute ? "Likely simple mechanical back pain" : "Persistent back pain pattern",
-      notes: acute ? ["Daily gentle mobility + light core.", "Avoid long rest; keep moving within comfort."]
-                   : ["Consistent graded activity + stress/sleep support.", "Consider non-urgent physio/PCP visit."] };
-  }, [symptoms]);
+  const screen = useMemo(()=> symptoms ? screenSymptoms(symptoms, { recentFlare: !!flare }) : null, [symptoms, flare]);
 
   const suggestions = useMemo(()=>{
     const baseStretches = [
@@ -32,13 +29,14 @@ export default function PlanModal({
     ] as SessionItem[];
     const extension = symptoms?.location==="low" ? [{ kind:"stretch", name:"Sphinx → Cobra", durationSec:120 } as SessionItem] : [];
     const core = [
-      { kind:"exercise", name:"Dead Bug", reps:8 },
-      { kind:"exercise", name:"Bird-Dog", reps:8 },
-      { kind:"exercise", name:"Side Plank (each)", durationSec:25 },
+      { kind:"exercise", name:"Dead Bug", reps:8, side:"both" },
+      { kind:"exercise", name:"Bird-Dog", reps:8, side:"both" },
+      { kind:"exercise", name:"Side Plank", durationSec:25, side:"both" },
     ] as SessionItem[];
     const hingeFix = lastScore < 60 ? [{ kind:"exercise", name:"Hip Hinge Patterning", reps:8 } as SessionItem] : [];
-    return { stretches:[...baseStretches, ...extension], exercises:[...core, ...hingeFix] };
-  }, [symptoms, lastScore]);
+    const exercises = [...core, ...hingeFix];
+    return { stretches:[...baseStretches, ...extension], exercises: flare ? regressPlan(exercises) : exercises };
+  }, [symptoms, lastScore, flare]);
 
   const planFooter = (
     <div style={{ display:"flex", gap:8, justifyContent:"flex-end" }}>
@@ -59,12 +57,14 @@ export default function PlanModal({
   return (
     <Modal open={open} onClose={onClose} title="Generate a Plan" footer={planFooter}>
       <div style={{ display:"grid", gap:12 }}>
-        <SymptomForm onChange={setSymptoms} />
+        <SymptomForm onChange={updateSymptoms} initial={symptoms} />
         <Card title="Screening">
           {!symptoms ? <div>Fill in symptoms to personalize.</div> :
             <>
-              <Tag tone={screen?.tone as any}>{screen?.label}</Tag>
+              <Tag tone={screen?.tone}>{screen?.label}</Tag>
+              {flare?.reasons.map((n,i)=><div key={`f${i}`} style={{ fontSize:13, color:"#444" }}>• {n}</div>)}
               {screen?.notes.map((n,i)=><div key={i} style={{ fontSize:13, color:"#444" }}>• {n}</div>)}
+              <div style={{ fontSize:11, color:"#999", marginTop:4 }}>Screening rules v{screen?.version}</div>
             </>
           }
         </Card>
@@ -76,7 +76,7 @@ export default function PlanModal({
             </ul>
             <div><b>Core / Back</b></div>
             <ul style={{ marginTop:0 }}>
-              {suggestions.exercises.map((s,i)=><li key={i}>{s.name} {s.durationSec?`— ${s.durationSec}s`:s.reps?`— ${s.reps} reps`:""}</li>)}
+              {suggestions.exercises.map((s,i)=><li key={i}>{s.name} {s.durationSec?`— ${s.durationSec}s`:s.reps?`— ${s.reps} reps`:""}{s.side==="both" ? " each side" : ""}</li>)}
             </ul>
             <div style={{ fontSize:12, color:"#777" }}>Note: This is general education, not medical advice. Seek care for severe/persistent symptoms or any red flags.</div>
           </div>
@@ -1,112 +1,192 @@
 import React, { useEffect, useRef, useState } from "react";
-import * as tf from "@tensorflow/tfjs";
-import "@tensorflow/tfjs-backend-webgl";
-import * as posedetection from "@tensorflow-models/pose-detection";
-import { scoreHipHinge } from "./exercises/scoreHipHinge";
-import { scorePlank } from "./exercises/scorePlank";
+import { EXERCISES, EXERCISE_LIST } from "./exercises/registry";
+import type { ExerciseId } from "./exercises/registry";
+import type { KP } from "./exercises/angles";
+import { createCoach } from "./exercises/coach";
+import type { Coach, ScoredFrame } from "./exercises/coach";
+import { drawGhost, drawOverlay } from "./exercises/overlay";
+import { createCalibration } from "./exercises/body";
+import type { BodyProfile } from "./exercises/body";
+import { jointVisibility } from "./exercises/visibility";
+import { loadBodyProfile, saveBodyProfile } from "./session/store";
+import SourceControls, { RecordButton } from "./SourceControls";
+import type { PoseEvent } from "./camera/pipeline";
+import { usePosePipeline } from "./camera/pipelineContext";
+import { keepIfSame, SCORE_UI_MS } from "./camera/inference";
+import DetectorPanel from "./DetectorPanel";
+import InferenceReadout from "./InferenceReadout";
 
 // Types
-type Keypoint = { x: number; y: number; name?: string; score?: number };
-type Mode = "hinge" | "plank";
+type Mode = ExerciseId;
 
 // Fixed large canvas for reliable layout (change if you want bigger/smaller)
 const CANVAS_WIDTH = 960;
 const CANVAS_HEIGHT = 720;
 
-// Add a new function to check joint visibility
-function checkJointVisibility(kps: Keypoint[]): { allVisible: boolean; missingJoints: string[] } {
-  const requiredJoints = [
-    "left_shoulder", "right_shoulder", 
-    "left_hip", "right_hip", 
-    "left_knee", "right_knee", 
-    "left_ankle", "right_ankle"
-  ];
-
-  const missingJoints = requiredJoints.filter(jointName => 
-    !kps.some(kp => kp.name === jointName && (kp.score ?? 0) > 0.45)
-  );
-
-  return {
-    allVisible: missingJoints.length === 0,
-    missingJoints
-  };
-}
-
 export default function PoseCoach({
   mode: controlledMode,
+  coach: controlledCoach,
   onUpdate,
+  onPose,
 }: {
   /** Optional: drive PoseCoach externally. If omitted, user buttons will switch modes. */
   mode?: Mode;
-  /** Optional: callback with latest (score, cues) each frame. */
-  onUpdate?: (score: number, cues: string[]) => void;
+  /**
+   * Optional: the caller's coach for this exercise, with its rep counter and hold clocks.
+   * If omitted, PoseCoach makes its own that only scores.
+   */
+  coach?: Coach | null;
+  /**
+   * Optional: callback with each scored frame (score, debounced cues, visibility, rep and
+   * hold progress). Silent while calibrating or waiting for the right camera view; the
+   * coach's hold clocks pause over those frames.
+   */
+  onUpdate?: (frame: ScoredFrame) => void;
+  /** Optional: callback with the smoothed keypoints (video space) each frame. */
+  onPose?: (kps: KP[]) => void;
 }) {
   const [mode, setMode] = useState<Mode>(controlledMode ?? "hinge");
-  const [status, setStatus] = useState("Loading model…");
   const [lastScore, setLastScore] = useState(0);
   const [lastCues, setLastCues] = useState<string[]>([]);
 
-  const videoRef = useRef<HTMLVideoElement>(null);
+  // Camera (or clip), model and frame loop come from the nearest PosePipelineProvider
+  const pipeline = usePosePipeline();
+  const { source, sourceStatus, detector } = pipeline;
+  const status = sourceStatus.state === "error" ? sourceStatus.message
+    : !source.keypoints && pipeline.modelStatus.state !== "ready" ? pipeline.modelStatus.message
+    : sourceStatus.state === "loading" ? (source.kind === "webcam" ? "Starting camera…" : "Loading video…")
+    : source.kind === "webcam" ? "Step back 6–8 ft; full body in frame. Good lighting helps."
+    : "Press play or step through the clip frame by frame.";
+
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const detectorRef = useRef<posedetection.PoseDetector | null>(null);
+  const ownCoachRef = useRef<Coach | null>(null);
+  const calibrationRef = useRef(createCalibration());
+  // No stored profile means the first thing we do is calibrate
+  const [body, setBody] = useState<BodyProfile | null>(loadBodyProfile);
 
   // Keep internal mode in sync if a controlled prop is provided
   useEffect(() => {
     if (controlledMode) setMode(controlledMode);
   }, [controlledMode]);
 
-  // Initialize backend, model, and camera
+  // Each move checks its own camera view, and a new camera or clip starts the view check,
+  // cues and scorer history afresh (the caller's reps and hold time carry on)
   useEffect(() => {
-    let cancelled = false;
+    if (controlledCoach) controlledCoach.restart();
+    else ownCoachRef.current = createCoach(EXERCISES[mode]);
+  }, [mode, source, controlledCoach]);
 
-    (async () => {
-      try {
-        await tf.setBackend("webgl");
-        const detector = await posedetection.createDetector(
-          posedetection.SupportedModels.MoveNet,
-          { modelType: posedetection.movenet.modelType.SINGLEPOSE_LIGHTNING }
-        );
-        if (cancelled) return;
-        detectorRef.current = detector;
+  // Drawing and scoring, subscribed to the pipeline's frames
+  useEffect(() => {
+    // HUD, skeleton and ghost from the latest result, drawn over every video frame until the next one
+    const layer = document.createElement("canvas");
+    // When the score above the canvas last caught up with the HUD
+    let scoreShownAt = -Infinity;
 
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: { facingMode: "user" },
-          audio: false,
-        });
-        const v = videoRef.current!;
-        v.srcObject = stream;
-        v.onloadedmetadata = () => {
-          v.play();
-          setStatus("Step back 6–8 ft; full body in frame. Good lighting helps.");
-        };
-      } catch (e) {
-        console.error(e);
-        setStatus("Camera or model failed to load. Check permissions and reload.");
+    // Score one pose and redraw the overlay layer
+    const pose = ({ keypoints: kp, t, size, rewound }: PoseEvent) => {
+      const coach = controlledCoach ?? (ownCoachRef.current ??= createCoach(EXERCISES[mode]));
+      if (rewound) {
+        coach.rewind();
+        scoreShownAt = -Infinity;
+      }
+      const ctx = layer.getContext("2d")!;
+      const dpr = Math.max(1, window.devicePixelRatio || 1);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, layer.width, layer.height);
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      if (!kp) {
+        coach.pause();
+        return;
       }
-    })();
 
-    return () => {
-      cancelled = true;
-      // optional: stop the camera on unmount
-      const v = videoRef.current as HTMLVideoElement | null;
-      const ms = v?.srcObject as MediaStream | null;
-      ms?.getTracks().forEach((t) => t.stop());
-      detectorRef.current?.dispose();
-    };
-  }, []);
+      // Map keypoints from native video space to canvas space
+      const sx = CANVAS_WIDTH / size.width;
+      const sy = CANVAS_HEIGHT / size.height;
 
-  // Main render loop
-  useEffect(() => {
-    let raf = 0;
+      // Check joint visibility
+      const exercise = coach.def;
+      const { allVisible, missing: missingJoints } = jointVisibility(kp, exercise.requiredKeypoints);
+
+      // Skeleton with angle labels against each marker's range
+      drawOverlay(ctx, kp, { scaleX: sx, scaleY: sy, markers: exercise.markers, color: allVisible ? "#00FF88" : "#FF4444" });
+
+      // Measure body proportions once so distance checks scale with the user
+      if (!body) {
+        const cal = calibrationRef.current.update(kp, t);
+        ctx.fillStyle = "rgba(0,0,0,.55)";
+        ctx.fillRect(20, 20, 520, 110);
+        ctx.fillStyle = "#fff";
+        ctx.font = "18px system-ui, -apple-system, Segoe UI, Roboto, sans-serif";
+        ctx.fillText("Calibrating body proportions", 30, 50);
+        ctx.fillStyle = "#FFD54F";
+        ctx.fillText(cal.prompt, 30, 80);
+        ctx.fillStyle = "rgba(255,255,255,.25)";
+        ctx.fillRect(30, 98, 480, 10);
+        ctx.fillStyle = "#00FF88";
+        ctx.fillRect(30, 98, 480 * Math.min(1, cal.progress), 10);
+        if (cal.profile) {
+          saveBodyProfile(cal.profile);
+          setBody(cal.profile);
+        }
+        coach.pause();
+        return;
+      }
 
-    const loop = async () => {
-      const v = videoRef.current, c = canvasRef.current, det = detectorRef.current;
-      if (!v || !c || !det) {
-        raf = requestAnimationFrame(loop);
+      // Score, once the user is facing the way the scorer needs
+      const step = coach.step(kp, body, t);
+      if (!step.scored) {
+        ctx.fillStyle = "rgba(0,0,0,.55)";
+        ctx.fillRect(20, 20, 420, 96);
+        ctx.fillStyle = "#fff";
+        ctx.font = "18px system-ui, -apple-system, Segoe UI, Roboto, sans-serif";
+        ctx.fillText(`Exercise: ${exercise.name}`, 30, 50);
+        ctx.fillStyle = "#FFD54F";
+        ctx.fillText(`↻ ${step.prompt}`, 30, 82);
         return;
       }
 
-      const ready = v.readyState >= 2 && v.videoWidth > 0 && v.videoHeight > 0;
+      // Ghost of the target position; distance from it counts against the score
+      const { result, cues: shownCues } = step;
+      if (step.match) drawGhost(ctx, step.match, { scaleX: sx, scaleY: sy });
+
+      // HUD
+      ctx.fillStyle = "rgba(0,0,0,.55)";
+      ctx.fillRect(20, 20, 420, 150);
+      ctx.fillStyle = "#fff";
+      ctx.font = "18px system-ui, -apple-system, Segoe UI, Roboto, sans-serif";
+      ctx.fillText(`Exercise: ${exercise.name}`, 30, 50);
+      ctx.fillText(`Form Score: ${result.score}`, 30, 76);
+
+      // Joint visibility warning
+      if (!allVisible) {
+        ctx.fillStyle = "#FF4444";
+        ctx.fillText("⚠️ Adjust position to show all joints:", 30, 104);
+        missingJoints.slice(0, 2).forEach((joint, i) => {
+          ctx.fillText(`• ${joint.replace('_', ' ')}`, 30, 130 + i * 22);
+        });
+        if (missingJoints.length > 2) {
+          ctx.fillText(`+ ${missingJoints.length - 2} more`, 30, 156);
+        }
+      } else {
+        shownCues.forEach((c, i) => {
+          ctx.fillText(`• ${c}`, 30, 104 + i * 22);
+        });
+      }
+
+      // Update React state sparingly: unchanged values don't re-render, and the score only catches up with the HUD a few times a second
+      if (t - scoreShownAt >= SCORE_UI_MS) {
+        scoreShownAt = t;
+        setLastScore(result.score);
+      }
+      setLastCues(c => keepIfSame(c, shownCues));
+      onUpdate?.(step);
+      onPose?.(kp);
+    };
+
+    const frame = (v: HTMLVideoElement) => {
+      const c = canvasRef.current;
+      if (!c) return;
 
       // Prepare canvas with Hi-DPI transform
       const ctx = c.getContext("2d")!;
@@ -117,122 +197,57 @@ export default function PoseCoach({
         c.style.width = `${CANVAS_WIDTH}px`;
         c.style.height = `${CANVAS_HEIGHT}px`;
       }
+      if (layer.width !== c.width || layer.height !== c.height) {
+        layer.width = c.width;
+        layer.height = c.height;
+      }
       // clear in device pixels
       ctx.setTransform(1, 0, 0, 1, 0, 0);
       ctx.clearRect(0, 0, c.width, c.height);
       // switch to CSS-pixel space
       ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
 
-      if (ready) {
-        // Draw video scaled to our canvas
-        ctx.drawImage(v, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
-        // IMPORTANT: no flip here; keep flipHorizontal false so coords match drawn video
-        const poses = await det.estimatePoses(v, { flipHorizontal: false });
-        const kp = poses[0]?.keypoints as Keypoint[] | undefined;
-
-        if (kp) {
-          // Map keypoints from native video space to canvas space
-          const sx = CANVAS_WIDTH / v.videoWidth;
-          const sy = CANVAS_HEIGHT / v.videoHeight;
-
-          // Check joint visibility
-          const { allVisible, missingJoints } = checkJointVisibility(kp);
-
-          // Draw keypoints
-          ctx.lineWidth = 2;
-          ctx.fillStyle = allVisible ? "#00FF88" : "#FF4444";
-          for (const k of kp) {
-            if ((k.score ?? 0) > 0.45) {
-              const x = k.x * sx;
-              const y = k.y * sy;
-              ctx.beginPath();
-              ctx.arc(x, y, 5, 0, 2 * Math.PI);
-              ctx.fill();
-            }
-          }
-
-          // Score
-          const result =
-            mode === "hinge" ? scoreHipHinge(kp) :
-            mode === "plank" ? scorePlank(kp) :
-            { score: 0, cues: ["Unsupported mode"] };
-
-          // HUD
-          ctx.fillStyle = "rgba(0,0,0,.55)";
-          ctx.fillRect(20, 20, 420, 150);
-          ctx.fillStyle = "#fff";
-          ctx.font = "18px system-ui, -apple-system, Segoe UI, Roboto, sans-serif";
-          ctx.fillText(`Exercise: ${mode}`, 30, 50);
-          ctx.fillText(`Form Score: ${result.score}`, 30, 76);
-          
-          // Joint visibility warning
-          if (!allVisible) {
-            ctx.fillStyle = "#FF4444";
-            ctx.fillText("⚠️ Adjust position to show all joints:", 30, 104);
-            missingJoints.slice(0, 2).forEach((joint, i) => {
-              ctx.fillText(`• ${joint.replace('_', ' ')}`, 30, 130 + i * 22);
-            });
-            if (missingJoints.length > 2) {
-              ctx.fillText(`+ ${missingJoints.length - 2} more`, 30, 156);
-            }
-          } else {
-            // Original cues display
-            result.cues.slice(0, 2).forEach((c, i) => {
-              ctx.fillText(`• ${c}`, 30, 104 + i * 22);
-            });
-          }
-
-          // Update React state sparingly
-          if (result.score !== lastScore) setLastScore(result.score);
-          const headCues = result.cues.slice(0, 2);
-          if (JSON.stringify(headCues) !== JSON.stringify(lastCues.slice(0, 2))) {
-            setLastCues(headCues);
-          }
-          onUpdate?.(result.score, result.cues);
-        }
-      } else {
+      // A keypoint replay needs no video, only its recorded frames
+      const hasVideo = v.readyState >= 2 && v.videoWidth > 0 && v.videoHeight > 0;
+      if (!hasVideo && !source.keypoints) {
         // Waiting overlay
         ctx.fillStyle = "#111";
         ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
         ctx.fillStyle = "#fff";
         ctx.font = "18px system-ui, -apple-system, Segoe UI, Roboto, sans-serif";
-        ctx.fillText("Waiting for camera… (allow permissions)", 30, 50);
+        ctx.fillText(source.kind === "webcam" ? "Waiting for camera… (allow permissions)" : "Loading video…", 30, 50);
+        return;
       }
 
-      raf = requestAnimationFrame(loop);
+      // Draw video scaled to our canvas, then the latest overlay (already in device pixels)
+      if (hasVideo) ctx.drawImage(v, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.drawImage(layer, 0, 0);
     };
 
-    raf = requestAnimationFrame(loop);
-    return () => cancelAnimationFrame(raf);
-  }, [mode, onUpdate, lastCues, lastScore]);
+    return pipeline.subscribe({ frame, pose });
+  }, [mode, controlledCoach, onUpdate, onPose, body, pipeline, source]);
 
   return (
     <div style={{ fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif" }}>
       {/* Top controls (hidden if component is controlled via prop) */}
       {!controlledMode && (
         <div style={{ display: "flex", gap: 12, marginBottom: 12 }}>
-          <button
-            onClick={() => setMode("hinge")}
-            style={btnStyle(mode === "hinge")}
-          >
-            Hip Hinge
-          </button>
-          <button
-            onClick={() => setMode("plank")}
-            style={btnStyle(mode === "plank")}
-          >
-            Plank
-          </button>
+          {EXERCISE_LIST.filter(e => e.category === "exercise").map(e => (
+            <button
+              key={e.id}
+              onClick={() => setMode(e.id)}
+              style={btnStyle(mode === e.id)}
+            >
+              {e.name}
+            </button>
+          ))}
           <div style={{ marginLeft: "auto", color: "#666" }}>
             <b>Score:</b> {lastScore} {lastCues.map((c, i) => <span key={i} style={{ marginLeft: 8 }}>• {c}</span>)}
           </div>
         </div>
       )}
 
-      {/* Hidden <video>, we render to the canvas */}
-      <video ref={videoRef} playsInline style={{ display: "none" }} />
-
       {/* Main canvas */}
       <canvas
         ref={canvasRef}
@@ -250,6 +265,35 @@ export default function PoseCoach({
       {/* Status line */}
       <div style={{ marginTop: 10, textAlign: "center", color: "#444" }}>
         {status}
+        {!source.keypoints && pipeline.inference && (
+          <span style={{ marginLeft: 12 }}>
+            <InferenceReadout stats={pipeline.inference} inWorker={detector?.inWorker} />
+          </span>
+        )}
+        {body && (
+          <button
+            onClick={() => { calibrationRef.current.reset(); setBody(null); }}
+            style={{ ...btnStyle(false), marginLeft: 12, padding: "4px 10px" }}
+          >
+            Recalibrate
+          </button>
+        )}
+      </div>
+
+      {/* Camera or uploaded clip */}
+      <div style={{ width: `${CANVAS_WIDTH}px`, margin: "10px auto 0" }}>
+        <SourceControls source={source} onChange={pipeline.setSource} />
+        <div style={{ marginTop: 6 }}>
+          <RecordButton recorder={pipeline.recorder} exercise={mode} size={pipeline.frameSize} />
+        </div>
+        <div style={{ marginTop: 6 }}>
+          <DetectorPanel
+            settings={pipeline.detectorSettings}
+            onChange={pipeline.setDetectorSettings}
+            backend={detector?.backend ?? null}
+            exercise={EXERCISES[mode]}
+          />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,28 @@
+import { useEffect, useRef, useState } from "react";
+import type { ReactNode } from "react";
+import { createPosePipeline } from "./camera/pipeline";
+import { PosePipelineContext } from "./camera/pipelineContext";
+
+/**
+ * Owns one camera pipeline for everything inside it. Views mounted and
+ * unmounted underneath (session steps) share it, so the camera stays open.
+ */
+export default function PosePipelineProvider({ children }: { children: ReactNode }) {
+  const [pipeline] = useState(createPosePipeline);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const v = videoRef.current;
+    if (!v) return;
+    pipeline.attach(v);
+    return () => pipeline.detach();
+  }, [pipeline]);
+
+  return (
+    <PosePipelineContext.Provider value={pipeline}>
+      {/* Hidden <video>, views render to their own canvas */}
+      <video ref={videoRef} playsInline muted style={{ display: "none" }} />
+      {children}
+    </PosePipelineContext.Provider>
+  );
+}
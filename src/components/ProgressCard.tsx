@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Card } from "./Shell";
+import { useSessionHistory } from "./session/store";
+import { formScoreSeries, historySpanDays, painSeries, volumeSeries } from "./session/progress";
+import type { Granularity, Series } from "./session/progress";
+
+const COLORS = ["#2196F3", "#FF9800", "#4CAF50", "#9C27B0", "#F44336", "#009688", "#795548"];
+const W = 380, H = 140, PAD = { l: 28, r: 8, t: 8, b: 20 };
+
+function LineChart({ series, yMax, g }: { series: Series[]; yMax?: number; g: Granularity }) {
+  const ts = [...new Set(series.flatMap(s => s.points.map(p => p.t)))].sort((a, b) => a - b);
+  if (!ts.length) return <div style={{ fontSize:13, color:"#888" }}>No data yet.</div>;
+
+  const top = yMax ?? Math.max(1, ...series.flatMap(s => s.points.map(p => p.y)));
+  const x = (t: number) => PAD.l + (ts.length === 1 ? 0.5 : ts.indexOf(t) / (ts.length - 1)) * (W - PAD.l - PAD.r);
+  const y = (v: number) => PAD.t + (1 - v / top) * (H - PAD.t - PAD.b);
+  const fmt = (t: number) => new Date(t).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+  return (
+    <div>
+      <svg width={W} height={H} style={{ display:"block" }}>
+        <line x1={PAD.l} x2={W - PAD.r} y1={y(0)} y2={y(0)} stroke="#ddd" />
+        <line x1={PAD.l} x2={W - PAD.r} y1={y(top)} y2={y(top)} stroke="#f2f2f2" />
+        <text x={2} y={y(top) + 4} fontSize={10} fill="#888">{Math.round(top)}</text>
+        <text x={2} y={y(0) + 4} fontSize={10} fill="#888">0</text>
+        <text x={PAD.l} y={H - 4} fontSize={10} fill="#888">{g === "week" ? "wk of " : ""}{fmt(ts[0])}</text>
+        {ts.length > 1 && <text x={W - PAD.r} y={H - 4} fontSize={10} fill="#888" textAnchor="end">{fmt(ts[ts.length - 1])}</text>}
+        {series.map((s, i) => (
+          <g key={s.label} stroke={COLORS[i % COLORS.length]} fill={COLORS[i % COLORS.length]}>
+            <polyline fill="none" strokeWidth={2} points={s.points.map(p => `${x(p.t)},${y(p.y)}`).join(" ")} />
+            {s.points.map(p => <circle key={p.t} cx={x(p.t)} cy={y(p.y)} r={3}><title>{`${fmt(p.t)}: ${Math.round(p.y * 10) / 10}`}</title></circle>)}
+          </g>
+        ))}
+      </svg>
+      <div style={{ display:"flex", flexWrap:"wrap", gap:"4px 12px", fontSize:12 }}>
+        {series.map((s, i) => (
+          <span key={s.label}><span style={{ color: COLORS[i % COLORS.length] }}>●</span> {s.label}</span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function ProgressCard() {
+  const sessions = useSessionHistory();
+  // Weekly view reads better once there's more than a month of history
+  const [g, setG] = useState<Granularity>(() => historySpanDays(sessions) > 28 ? "week" : "day");
+
+  return (
+    <Card title="Progress">
+      {sessions.length === 0 ? <div>Finish a session to start tracking progress.</div> :
+        <div style={{ display:"grid", gap:14 }}>
+          <div style={{ display:"flex", gap:6 }}>
+            {(["day","week"] as const).map(v => (
+              <button key={v} onClick={()=>setG(v)} style={{
+                padding:"4px 10px", borderRadius:8, border:"1px solid #ddd",
+                background: g===v ? "#111" : "#fff", color: g===v ? "#fff" : "#111"
+              }}>{v === "day" ? "Daily" : "Weekly"}</button>
+            ))}
+            <span style={{ marginLeft:"auto", fontSize:12, color:"#888" }}>{sessions.length} sessions</span>
+          </div>
+          <div>
+            <div style={{ fontWeight:700, marginBottom:4 }}>Form score by exercise</div>
+            <LineChart series={formScoreSeries(sessions, g)} yMax={100} g={g} />
+          </div>
+          <div>
+            <div style={{ fontWeight:700, marginBottom:4 }}>Reps & holds completed</div>
+            <LineChart series={volumeSeries(sessions, g)} g={g} />
+          </div>
+          <div>
+            <div style={{ fontWeight:700, marginBottom:4 }}>Reported pain (0–10)</div>
+            <LineChart series={painSeries(sessions, g)} yMax={10} g={g} />
+          </div>
+        </div>
+      }
+    </Card>
+  );
+}
@@ -1,16 +1,21 @@
 import React, { useMemo, useState } from "react";
 import { Card, Tag } from "./Shell";
 import type { SymptomData } from "./SymptomForm";
+import SessionHistory from "./SessionHistory";
+import ProgressCard from "./ProgressCard";
+import { useSessionHistory } from "./session/store";
+import { currentFlare } from "./session/flare";
+import { screen } from "./screening/screen";
 
 export default function RightPanel({ symptoms, lastScore, cues }:{
   symptoms: SymptomData | null; lastScore: number; cues: string[];
 }) {
-  const [tab, setTab] = useState<"screen"|"plan"|"posture"|"alternatives">("screen");
+  const [tab, setTab] = useState<"screen"|"plan"|"posture"|"alternatives"|"progress"|"history">("screen");
 
   return (
     <div style={{ display:"grid", gap: 12 }}>
       <div style={{ display:"flex", gap:8 }}>
-        {["screen","plan","posture","alternatives"].map(t=>(
+        {["screen","plan","posture","alternatives","progress","history"].map(t=>(
           <button key={t} onClick={()=>setTab(t as any)} style={{
             padding:"6px 10px", borderRadius:8, border:"1px solid #ddd",
             background: tab===t ? "#111" : "#fff", color: tab===t ? "#fff":"#111"
@@ -19,32 +24,20 @@ export default function RightPanel({ symptoms, lastScore, cues }:{
       </div>
 
       {tab==="screen"   && <ScreeningCard symptoms={symptoms} lastScore={lastScore} cues={cues} />}
-      {tab==="plan"     && <PlanCard symptoms={symptoms} />}
+      {tab==="plan"     && <PlanCard />}
       {tab==="posture"  && <PostureCard />}
       {tab==="alternatives" && <AltTherapiesCard />}
+      {tab==="progress" && <ProgressCard />}
+      {tab==="history"  && <SessionHistory />}
       <Disclaimer />
     </div>
   );
 }
 
 function ScreeningCard({ symptoms, lastScore, cues }:{ symptoms: SymptomData | null; lastScore: number; cues: string[] }) {
-  const result = useMemo(()=>{
-    if (!symptoms) return null;
-    const red = symptoms.bladderBowel || symptoms.numbness || symptoms.fever || symptoms.trauma;
-    const acute = symptoms.durationDays < 6*7; // <6 weeks
-    const severity = symptoms.painWorst >= 8;
-
-    if (red) return { tone: "bad", label: "See a clinician urgently",
-      notes: ["One or more red flags selected.", "Seek medical assessment before continuing exercise."] };
-
-    if (severity) return { tone: "warn", label: "High pain — go gentle",
-      notes: ["Use gentle mobility only, keep sessions short.", "If pain persists/worsens, contact a clinician."] };
-
-    return { tone: "good", label: acute ? "Likely simple mechanical back pain" : "Persistent back pain pattern",
-      notes: acute
-        ? ["Try daily gentle mobility + light core work.", "Gradually increase activity; avoid prolonged rest."]
-        : ["Consider consistent graded activity + stress/sleep support.", "Book a non-urgent physio/PCP visit for a plan."] };
-  }, [symptoms]);
+  const history = useSessionHistory();
+  const flare = useMemo(() => currentFlare(history), [history]);
+  const result = useMemo(()=> symptoms ? screen(symptoms, { recentFlare: !!flare }) : null, [symptoms, flare]);
 
   const suggestions = useMemo(()=>{
     // Map cues & symptoms to stretch/exercise lists
@@ -70,8 +63,10 @@ function ScreeningCard({ symptoms, lastScore, cues }:{ symptoms: SymptomData | n
       {!symptoms ? <div>Fill in the Symptoms form to personalize suggestions.</div> :
         <>
           <div style={{ marginBottom:8 }}>
-            <Tag tone={result?.tone as any}>{result?.label}</Tag>
+            <Tag tone={result?.tone}>{result?.label}</Tag>
+            {flare?.reasons.map((n,i)=><div key={`f${i}`} style={{ fontSize: 13, color:"#444" }}>• {n}</div>)}
             {result?.notes.map((n,i)=><div key={i} style={{ fontSize: 13, color:"#444" }}>• {n}</div>)}
+            <div style={{ fontSize:11, color:"#999", marginTop:4 }}>Screening rules v{result?.version}</div>
           </div>
 
           <div style={{ marginTop:8 }}>
@@ -100,15 +95,14 @@ function ScreeningCard({ symptoms, lastScore, cues }:{ symptoms: SymptomData | n
   );
 }
 
-function PlanCard({ symptoms }:{ symptoms: SymptomData | null }) {
-  const acute = symptoms ? symptoms.durationDays < 42 : true;
+function PlanCard() {
   return (
     <Card title="Recovery & Treatment Plan (general)">
       <div style={{ fontSize: 14, color:"#333", display:"grid", gap:8 }}>
         <div><b>Week 1–2:</b> gentle mobility daily (5–10 min), short walks, pain-free ranges only.</div>
         <div><b>Week 3–4:</b> add core work 3×/week, gradually return to usual activity.</div>
         <div><b>Relief options:</b> heat 10–20m; OTC analgesics/anti-inflammatories <i>only per label or clinician</i>.</div>
-        <div><b>When to seek care:</b> if pain is severe, not improving after 2–4 weeks, or any red flags (numbness/weakness, bladder/bowel issues, fever, trauma).</div>
+        <div><b>When to seek care:</b> if pain is severe, not improving after 2–4 weeks, or any red flags (numbness/weakness, saddle numbness, bladder/bowel issues, fever, trauma, night pain, weight loss, history of cancer).</div>
         <div><b>Imaging/surgery:</b> usually not first-line for simple back pain. Discuss with a clinician if pain persists or neurological signs appear.</div>
       </div>
     </Card>
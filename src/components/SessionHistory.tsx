@@ -0,0 +1,70 @@
+import { Card, Tag } from "./Shell";
+import { clearSessions, useSessionHistory } from "./session/store";
+import type { ItemResult, SessionRecord } from "./session/store";
+import { asymmetry } from "./session/tally";
+
+function sessionScore(rec: SessionRecord): number | null {
+  const scored = rec.items.filter(i => i.scoreAvg !== null);
+  if (!scored.length) return null;
+  return Math.round(scored.reduce((a, i) => a + (i.scoreAvg ?? 0), 0) / scored.length);
+}
+
+function effort(r: ItemResult): string {
+  const { left, right } = r.sides ?? {};
+  if (r.reps !== undefined && (left?.reps || right?.reps)) return `${left?.reps ?? 0} L · ${right?.reps ?? 0} R${r.item.reps ? ` / ${r.item.reps}` : ""} reps`;
+  if (r.reps !== undefined) return `${r.reps}${r.item.reps ? ` / ${r.item.reps}` : ""} reps`;
+  if (r.holdGoodSec !== undefined) return `${r.holdGoodSec}s good of ${r.holdTotalSec ?? 0}s`;
+  return "—";
+}
+
+export default function SessionHistory() {
+  const sessions = useSessionHistory();
+
+  return (
+    <Card title="Session History">
+      {sessions.length === 0 ? <div>No sessions yet. Finish a session to see it here.</div> :
+        <div style={{ display:"grid", gap:8 }}>
+          {[...sessions].reverse().map(rec => {
+            const score = sessionScore(rec);
+            return (
+              <details key={rec.id} style={{ border:"1px solid #eee", borderRadius:8, padding:"6px 10px" }}>
+                <summary style={{ cursor:"pointer" }}>
+                  <b>{new Date(rec.startedAt).toLocaleString()}</b>{" "}
+                  <span style={{ color:"#666" }}>· {Math.max(1, Math.round((rec.endedAt - rec.startedAt) / 60000))} min</span>{" "}
+                  {score !== null && <Tag tone={score >= 75 ? "good" : score >= 50 ? "warn" : "bad"}>Form {score}</Tag>}
+                  {rec.symptoms && <Tag>Pain {rec.symptoms.painNow}/10</Tag>}
+                </summary>
+                <table style={{ width:"100%", fontSize:13, marginTop:6, borderCollapse:"collapse" }}>
+                  <thead>
+                    <tr style={{ textAlign:"left", color:"#666" }}>
+                      <th>Step</th><th>Avg / min</th><th>Done</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rec.items.map((r, i) => {
+                      const gap = asymmetry({ left: r.sides?.left?.scoreAvg, right: r.sides?.right?.scoreAvg });
+                      return (
+                        <tr key={i} style={{ verticalAlign:"top", borderTop:"1px solid #f2f2f2" }}>
+                          <td>
+                            {r.item.name}
+                            {r.topCues.length > 0 && <div style={{ color:"#888" }}>{r.topCues.join(" · ")}</div>}
+                            {gap && <div style={{ color:"#a15c0f" }}>{gap.weaker === "left" ? "Left" : "Right"} side {gap.gap} points weaker</div>}
+                          </td>
+                          <td>{r.scoreAvg !== null ? `${r.scoreAvg} / ${r.scoreMin}` : "—"}</td>
+                          <td>{effort(r)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </details>
+            );
+          })}
+          <div style={{ textAlign:"right" }}>
+            <button onClick={()=>{ if (confirm("Delete all saved sessions?")) clearSessions(); }}>Clear history</button>
+          </div>
+        </div>
+      }
+    </Card>
+  );
+}
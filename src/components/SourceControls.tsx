@@ -0,0 +1,118 @@
+import { useEffect, useReducer, useRef, useState } from "react";
+import { createReplaySource, createVideoFileSource, createWebcamSource, isPlayback, isReplay, isVideoFile } from "./camera/frameSource";
+import type { FrameSource, PlaybackSource } from "./camera/frameSource";
+import { DEFAULT_CAMERA } from "./camera/pipeline";
+import { downloadRecording, parseRecording } from "./camera/recording";
+import type { KeypointRecorder } from "./camera/recording";
+import type { ExerciseId } from "./exercises/registry";
+
+const fmtTime = (sec: number) => `${Math.floor(sec / 60)}:${(sec % 60).toFixed(1).padStart(4, "0")}`;
+
+const btn = (active = false) => ({
+  padding: "4px 10px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+  background: active ? "#e6f3ff" : "#fff",
+  color: active ? "#0b4a8b" : "#555",
+  cursor: "pointer",
+});
+
+function Playback({ source }: { source: PlaybackSource }) {
+  // The source owns playback state; re-render whenever it moves
+  const [, rerender] = useReducer((n: number) => n + 1, 0);
+  useEffect(() => source.subscribe(rerender), [source]);
+
+  return (
+    <div style={{ display: "flex", gap: 8, alignItems: "center", flexGrow: 1 }}>
+      <button onClick={() => source.step(-1)} style={btn()} title="Previous frame">⏮</button>
+      <button onClick={() => source.paused ? source.play() : source.pause()} style={btn()} title={source.paused ? "Play" : "Pause"}>
+        {source.paused ? "▶" : "⏸"}
+      </button>
+      <button onClick={() => source.step(1)} style={btn()} title="Next frame">⏭</button>
+      <input
+        type="range" min={0} max={source.duration} step={1 / source.fps} value={source.currentTime}
+        onChange={(e) => source.seek(parseFloat(e.target.value))}
+        style={{ flexGrow: 1 }}
+      />
+      <span style={{ fontVariantNumeric: "tabular-nums" }}>{fmtTime(source.currentTime)} / {fmtTime(source.duration)}</span>
+    </div>
+  );
+}
+
+/**
+ * Switches between the live camera, an uploaded clip and a keypoint
+ * recording, with playback controls for the last two.
+ */
+export default function SourceControls({ source, onChange }: {
+  source: FrameSource; onChange: (s: FrameSource) => void;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const replayRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const pick = (file: File | undefined) => {
+    setError(null);
+    if (file) onChange(createVideoFileSource(file));
+  };
+
+  const pickRecording = async (file: File | undefined) => {
+    setError(null);
+    if (!file) return;
+    try {
+      onChange(createReplaySource(parseRecording(await file.text()), file.name));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't read that recording.");
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", fontSize: 13, color: "#555" }}>
+      <button onClick={() => source.kind !== "webcam" && onChange(createWebcamSource(DEFAULT_CAMERA))} style={btn(source.kind === "webcam")}>
+        Camera
+      </button>
+      <button onClick={() => fileRef.current?.click()} style={btn(source.kind === "file")}>
+        {isVideoFile(source) ? source.file.name : "Video file…"}
+      </button>
+      <input
+        ref={fileRef} type="file" accept="video/mp4,video/webm" style={{ display: "none" }}
+        onChange={(e) => { pick(e.target.files?.[0]); e.target.value = ""; }}
+      />
+      <button onClick={() => replayRef.current?.click()} style={btn(source.kind === "replay")}>
+        {isReplay(source) ? source.name : "Replay keypoints…"}
+      </button>
+      <input
+        ref={replayRef} type="file" accept="application/json,.json" style={{ display: "none" }}
+        onChange={(e) => { pickRecording(e.target.files?.[0]); e.target.value = ""; }}
+      />
+      {isPlayback(source) && <Playback source={source} />}
+      {error && <span style={{ color: "#c62828" }}>{error}</span>}
+    </div>
+  );
+}
+
+/**
+ * Records the detector's raw keypoints for the current exercise and saves
+ * them as a file, to replay later or keep as a scoring fixture.
+ */
+export function RecordButton({ recorder, exercise, size }: {
+  recorder: KeypointRecorder; exercise: ExerciseId; size: () => { width: number; height: number };
+}) {
+  const [recording, setRecording] = useState(recorder.recording);
+
+  const toggle = () => {
+    if (recorder.recording) {
+      const rec = recorder.stop();
+      if (rec) downloadRecording(rec);
+    } else {
+      const { width, height } = size();
+      recorder.start(exercise, width, height);
+    }
+    setRecording(recorder.recording);
+  };
+
+  return (
+    <button onClick={toggle} style={{ ...btn(recording), color: recording ? "#c62828" : "#555" }}>
+      {recording ? "■ Stop and save recording" : "● Record keypoints"}
+    </button>
+  );
+}
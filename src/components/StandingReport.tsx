@@ -0,0 +1,226 @@
+import { useEffect, useRef } from "react";
+import { get } from "./exercises/angles";
+import type { KP } from "./exercises/angles";
+import { STANDING_LIMITS } from "./exercises/scoreStandingPosture";
+import type { StandingAngles, StandingPostureAssessment } from "./exercises/scoreStandingPosture";
+
+/** A captured camera frame plus the keypoints seen in it (in video pixels). */
+export type PostureSnapshot = {
+  image: string;
+  kps: KP[];
+  /** Video pixels to image pixels. */
+  scaleX: number;
+  scaleY: number;
+  width: number;
+  height: number;
+  at: number;
+};
+
+type SnapshotView = "front" | "side";
+
+const OK = "#4CAF50";
+const OFF = "#e53935";
+
+const within = (v: number | null, limit: number) => v === null || Math.abs(v) <= limit;
+
+function line(ctx: CanvasRenderingContext2D, pts: { x: number; y: number }[], color: string, dash: number[] = []) {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 4;
+  ctx.setLineDash(dash);
+  ctx.beginPath();
+  pts.forEach((p, i) => i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y));
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
+function label(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, color: string) {
+  ctx.font = "bold 18px system-ui, sans-serif";
+  const w = ctx.measureText(text).width;
+  ctx.fillStyle = "rgba(0,0,0,0.7)";
+  ctx.fillRect(x - 4, y - 18, w + 8, 24);
+  ctx.fillStyle = color;
+  ctx.fillText(text, x, y);
+}
+
+/** Draws the measured lines over the frame, green within range and red outside it. */
+function annotate(ctx: CanvasRenderingContext2D, snap: PostureSnapshot, view: SnapshotView, angles: StandingAngles) {
+  const at = (name: string) => {
+    const k = get(snap.kps, name);
+    return k && { x: k.x * snap.scaleX, y: k.y * snap.scaleY };
+  };
+
+  if (view === "front") {
+    const pairs = [
+      { l: at("left_shoulder"), r: at("right_shoulder"), v: angles.shoulderTilt, limit: STANDING_LIMITS.shoulderTilt },
+      { l: at("left_hip"), r: at("right_hip"), v: angles.hipTilt, limit: STANDING_LIMITS.hipTilt },
+    ];
+    for (const { l, r, v, limit } of pairs) {
+      if (!l || !r || v === null) continue;
+      const color = within(v, limit) ? OK : OFF;
+      // Level reference through the left joint, then the actual line
+      line(ctx, [{ x: r.x - 40, y: l.y }, { x: l.x + 40, y: l.y }], "rgba(255,255,255,0.7)", [8, 6]);
+      line(ctx, [l, r], color);
+      label(ctx, `${Math.abs(v).toFixed(1)}°`, Math.max(l.x, r.x) + 48, l.y + 6, color);
+    }
+    for (const side of ["left", "right"] as const) {
+      const h = at(`${side}_hip`), k = at(`${side}_knee`), a = at(`${side}_ankle`), v = angles.knee[side];
+      if (!h || !k || !a || v === null) continue;
+      const color = within(v, STANDING_LIMITS.knee) ? OK : OFF;
+      line(ctx, [h, a], "rgba(255,255,255,0.7)", [8, 6]);
+      line(ctx, [h, k, a], color);
+      label(ctx, `${v.toFixed(1)}°`, k.x + 12, k.y, color);
+    }
+    return;
+  }
+
+  // Side view: plumb line through the ankle and the ear–ankle chain
+  const chain = ["ear", "shoulder", "hip", "knee", "ankle"].map(j => {
+    const l = get(snap.kps, `left_${j}`), r = get(snap.kps, `right_${j}`);
+    const k = (l?.score ?? 0) >= (r?.score ?? 0) ? l : r;
+    return k && { x: k.x * snap.scaleX, y: k.y * snap.scaleY };
+  });
+  const [ear, shoulder, hip, , ankle] = chain;
+  if (ankle) line(ctx, [{ x: ankle.x, y: 0 }, { x: ankle.x, y: snap.height }], "rgba(255,255,255,0.7)", [8, 6]);
+  const seen = chain.filter((p): p is { x: number; y: number } => !!p);
+  const good = (angles.headForward ?? 0) <= STANDING_LIMITS.headForward && within(angles.pelvicTilt, STANDING_LIMITS.pelvicTilt);
+  line(ctx, seen, good ? OK : OFF);
+  if (ear && shoulder && angles.headForward !== null) {
+    const color = angles.headForward <= STANDING_LIMITS.headForward ? OK : OFF;
+    label(ctx, `Head ${angles.headForward.toFixed(0)}°`, ear.x + 12, ear.y - 12, color);
+  }
+  if (hip && angles.pelvicTilt !== null) {
+    const color = within(angles.pelvicTilt, STANDING_LIMITS.pelvicTilt) ? OK : OFF;
+    label(ctx, `Pelvis ${angles.pelvicTilt.toFixed(0)}°`, hip.x + 12, hip.y, color);
+  }
+}
+
+function AnnotatedSnapshot({ snap, view, angles }: { snap: PostureSnapshot; view: SnapshotView; angles: StandingAngles }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const img = new Image();
+    img.onload = () => {
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      annotate(ctx, snap, view, angles);
+    };
+    img.src = snap.image;
+  }, [snap, view, angles]);
+
+  const save = () => {
+    const a = document.createElement("a");
+    a.href = canvasRef.current?.toDataURL("image/png") ?? snap.image;
+    a.download = `posture-${view}-${new Date(snap.at).toISOString().slice(0, 10)}.png`;
+    a.click();
+  };
+
+  return (
+    <figure style={{ margin: 0 }}>
+      <canvas ref={canvasRef} width={snap.width} height={snap.height} style={{ width: '100%', height: 'auto', borderRadius: 6, display: 'block' }} />
+      <figcaption style={{ display: 'flex', justifyContent: 'space-between', marginTop: 4, fontSize: 13, color: '#666' }}>
+        {view === "front" ? "Front" : "Side"}
+        <button className="no-print" onClick={save} style={{ background: 'none', border: 'none', color: '#0b4a8b', cursor: 'pointer', padding: 0 }}>
+          Save image
+        </button>
+      </figcaption>
+    </figure>
+  );
+}
+
+const fmt = (v: number | null) => v === null ? "—" : `${Math.abs(v).toFixed(1)}°`;
+
+function rows(a: StandingAngles): { name: string; value: string; typical: string; ok: boolean }[] {
+  const dir = (v: number | null, pos: string, neg: string) => v === null || Math.abs(v) < 0.05 ? "" : ` ${v > 0 ? pos : neg}`;
+  return [
+    { name: "Head forward (side)", value: fmt(a.headForward) + dir(a.headForward, "ahead", "behind"), typical: `under ${STANDING_LIMITS.headForward}°`, ok: (a.headForward ?? 0) <= STANDING_LIMITS.headForward },
+    { name: "Pelvic tilt proxy (side)", value: fmt(a.pelvicTilt) + dir(a.pelvicTilt, "anterior", "posterior"), typical: `within ±${STANDING_LIMITS.pelvicTilt}°`, ok: within(a.pelvicTilt, STANDING_LIMITS.pelvicTilt) },
+    { name: "Shoulder height (front)", value: fmt(a.shoulderTilt) + dir(a.shoulderTilt, "left higher", "right higher"), typical: `under ${STANDING_LIMITS.shoulderTilt}°`, ok: within(a.shoulderTilt, STANDING_LIMITS.shoulderTilt) },
+    { name: "Hip height (front)", value: fmt(a.hipTilt) + dir(a.hipTilt, "left higher", "right higher"), typical: `under ${STANDING_LIMITS.hipTilt}°`, ok: within(a.hipTilt, STANDING_LIMITS.hipTilt) },
+    { name: "Left knee (front)", value: fmt(a.knee.left) + dir(a.knee.left, "inwards", "outwards"), typical: `within ±${STANDING_LIMITS.knee}°`, ok: within(a.knee.left, STANDING_LIMITS.knee) },
+    { name: "Right knee (front)", value: fmt(a.knee.right) + dir(a.knee.right, "inwards", "outwards"), typical: `within ±${STANDING_LIMITS.knee}°`, ok: within(a.knee.right, STANDING_LIMITS.knee) },
+  ];
+}
+
+/** Printable standing posture report: annotated snapshots, measured angles and recommendations. */
+export default function StandingReport({ report, front, side, onRetake }: {
+  report: StandingPostureAssessment; front: PostureSnapshot; side: PostureSnapshot; onRetake: () => void;
+}) {
+  const buttonStyle = { background: 'none', border: '1px solid #ddd', borderRadius: 6, padding: '4px 10px', cursor: 'pointer', color: '#666' };
+
+  return (
+    <div id="posture-report" style={{
+      marginTop: 16,
+      background: '#fff',
+      borderRadius: 8,
+      padding: '15px',
+      boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+      color: '#333'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+        <h3 style={{ margin: 0, marginBottom: 10 }}>Standing Posture Report</h3>
+        <span style={{ fontSize: 13, color: '#666' }}>{new Date(side.at).toLocaleString()} · Score {report.score.toFixed(0)}</span>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+        <AnnotatedSnapshot snap={front} view="front" angles={report.angles} />
+        <AnnotatedSnapshot snap={side} view="side" angles={report.angles} />
+      </div>
+
+      <table style={{ width: '100%', marginTop: 12, borderCollapse: 'collapse', fontSize: 14 }}>
+        <thead>
+          <tr style={{ textAlign: 'left', color: '#666' }}>
+            <th style={{ padding: '4px 6px' }}>Measure</th>
+            <th style={{ padding: '4px 6px' }}>Measured</th>
+            <th style={{ padding: '4px 6px' }}>Typical</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows(report.angles).map(r => (
+            <tr key={r.name} style={{ borderTop: '1px solid #eee' }}>
+              <td style={{ padding: '4px 6px' }}>{r.name}</td>
+              <td style={{ padding: '4px 6px', color: r.ok ? '#2e7d32' : '#c62828', fontWeight: 600 }}>{r.value}</td>
+              <td style={{ padding: '4px 6px', color: '#666' }}>{r.typical}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {report.cues.length > 0 ? (
+        <ul style={{ marginTop: 12, paddingLeft: 20 }}>
+          {report.cues.map(c => <li key={c}>{c}</li>)}
+        </ul>
+      ) : (
+        <p style={{ marginTop: 12 }}>No posture findings — nicely balanced.</p>
+      )}
+      {report.unknown.length > 0 && (
+        <p style={{ margin: 0, fontSize: 13, color: '#999' }}>
+          Couldn't measure {report.unknown.join(', ')} — those joints weren't clearly in view.
+        </p>
+      )}
+      <p style={{ marginTop: 8, marginBottom: 0 }}>
+        <strong>Recommended:</strong> {report.recommendations.exercises.join(', ')}{' '}
+        <span style={{ color: '#666' }}>— {report.recommendations.duration} min, {report.recommendations.frequency}</span>
+      </p>
+      <p style={{ marginTop: 8, marginBottom: 0, fontSize: 12, color: '#999' }}>
+        Camera-based estimates, not a clinical measurement.
+      </p>
+
+      <div className="no-print" style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 12 }}>
+        <button onClick={onRetake} style={buttonStyle}>Retake</button>
+        <button onClick={() => window.print()} style={buttonStyle}>Print / save as PDF</button>
+      </div>
+
+      {/* Print only the report */}
+      <style>{`
+        @media print {
+          body * { visibility: hidden; }
+          #posture-report, #posture-report * { visibility: visible; }
+          #posture-report { position: absolute; left: 0; top: 0; width: 100%; box-shadow: none; }
+          #posture-report .no-print { display: none; }
+        }
+      `}</style>
+    </div>
+  );
+}
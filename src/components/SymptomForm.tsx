@@ -1,18 +1,35 @@
 import React, { useState } from "react";
+import type { ReactNode } from "react";
 import { Card } from "./Shell";
+import { DEFAULT_SYMPTOMS } from "./screening/symptoms";
 
 export type SymptomData = {
   painNow: number; painWorst: number; location: "low"|"mid"|"upper";
-  durationDays: number; numbness: boolean; fever: boolean; bladderBowel: boolean; trauma: boolean;
+  durationDays: number; age: number;
+  numbness: boolean; bilateralNumbness: boolean; progressiveWeakness: boolean;
+  saddleAnaesthesia: boolean; bladderBowel: boolean;
+  fever: boolean; trauma: boolean;
+  nightPain: boolean; nightPainUnrelenting: boolean;
+  weightLoss: boolean; weightLossSignificant: boolean;
+  cancerHistory: boolean; steroidUse: boolean; ivDrugUse: boolean;
   deskHours: number; sleepHours: number; stress: "low"|"med"|"high";
 };
 
-export default function SymptomForm({ onChange }: { onChange: (s: SymptomData) => void }) {
-  const [s, setS] = useState<SymptomData>({
-    painNow: 3, painWorst: 6, location: "low", durationDays: 7,
-    numbness: false, fever: false, bladderBowel: false, trauma: false,
-    deskHours: 6, sleepHours: 7, stress: "med"
-  });
+type Flag = { [K in keyof SymptomData]: SymptomData[K] extends boolean ? K : never }[keyof SymptomData];
+
+/** Follow-up questions only shown once their parent answer is yes. */
+const FOLLOW_UPS: Partial<Record<Flag, { key: Flag; label: string }[]>> = {
+  numbness: [
+    { key: "bilateralNumbness", label: "In both legs" },
+    { key: "progressiveWeakness", label: "Weakness getting worse over hours or days" },
+  ],
+  nightPain: [{ key: "nightPainUnrelenting", label: "Not eased by rest or changing position" }],
+  weightLoss: [{ key: "weightLossSignificant", label: "More than 5 kg (10 lb) in the last 6 months" }],
+};
+
+export default function SymptomForm({ onChange, initial }: { onChange: (s: SymptomData) => void; initial?: SymptomData | null }) {
+  // Spread over the defaults so answers saved before a question existed still load
+  const [s, setS] = useState<SymptomData>({ ...DEFAULT_SYMPTOMS, ...initial });
 
   const update = (patch: Partial<SymptomData>) => {
     const next = { ...s, ...patch };
@@ -20,6 +37,20 @@ export default function SymptomForm({ onChange }: { onChange: (s: SymptomData) =
     onChange(next);
   };
 
+  const flag = (key: Flag, label: ReactNode) => (
+    <div key={key}>
+      <label><input type="checkbox" checked={s[key]} onChange={(e)=>{
+        const patch: Partial<SymptomData> = { [key]: e.target.checked };
+        // Unticking a question clears its follow-ups so stale answers can't trigger rules
+        if (!e.target.checked) FOLLOW_UPS[key]?.forEach(f => { patch[f.key] = false; });
+        update(patch);
+      }}/> {label}</label>
+      {s[key] && FOLLOW_UPS[key] && (
+        <div style={{ marginLeft: 22, fontSize: 13 }}>{FOLLOW_UPS[key].map(f => flag(f.key, f.label))}</div>
+      )}
+    </div>
+  );
+
   return (
     <Card title="Symptoms">
       <div style={{ display: "grid", gap: 10 }}>
@@ -29,27 +60,37 @@ export default function SymptomForm({ onChange }: { onChange: (s: SymptomData) =
           onChange={(e)=>update({ painWorst: parseInt(e.target.value) })}/> <b>{s.painWorst}</b></label>
 
         <label>Location:
-          <select value={s.location} onChange={(e)=>update({ location: e.target.value as any })}>
+          <select value={s.location} onChange={(e)=>update({ location: e.target.value as SymptomData["location"] })}>
             <option value="low">Low back</option><option value="mid">Mid back</option><option value="upper">Upper/neck</option>
           </select>
         </label>
 
-        <label>Duration (days): <input type="number" min={0} value={s.durationDays}
-          onChange={(e)=>update({ durationDays: parseInt(e.target.value||"0") })}/></label>
+        <div style={{ display:"grid", gridTemplateColumns:"1fr 1fr", gap: 10 }}>
+          <label>Duration (days): <input type="number" min={0} value={s.durationDays}
+            onChange={(e)=>update({ durationDays: parseInt(e.target.value||"0") })}/></label>
+          <label>Age: <input type="number" min={0} max={120} value={s.age}
+            onChange={(e)=>update({ age: parseInt(e.target.value||"0") })}/></label>
+        </div>
 
         <fieldset style={{ border: "1px dashed #ddd", borderRadius: 8, padding: 8 }}>
           <legend style={{ padding: "0 6px" }}>Any red flags?</legend>
-          <label><input type="checkbox" checked={s.numbness} onChange={(e)=>update({ numbness: e.target.checked })}/> Numbness/weakness in legs</label><br/>
-          <label><input type="checkbox" checked={s.fever} onChange={(e)=>update({ fever: e.target.checked })}/> Fever/unwell</label><br/>
-          <label><input type="checkbox" checked={s.bladderBowel} onChange={(e)=>update({ bladderBowel: e.target.checked })}/> Bladder/bowel changes</label><br/>
-          <label><input type="checkbox" checked={s.trauma} onChange={(e)=>update({ trauma: e.target.checked })}/> Recent trauma</label>
+          {flag("numbness", "Numbness/weakness in legs")}
+          {flag("saddleAnaesthesia", "Numbness around the groin, buttocks or genitals")}
+          {flag("bladderBowel", "Bladder/bowel changes")}
+          {flag("fever", "Fever/unwell")}
+          {flag("trauma", "Recent trauma")}
+          {flag("nightPain", "Pain that wakes you at night")}
+          {flag("weightLoss", "Unexplained weight loss")}
+          {flag("cancerHistory", "History of cancer")}
+          {flag("steroidUse", "Long-term steroid tablets")}
+          {flag("ivDrugUse", "Injecting drug use")}
         </fieldset>
 
         <div style={{ display:"grid", gridTemplateColumns:"1fr 1fr 1fr", gap: 10 }}>
           <label>Desk hours/day <input type="number" min={0} value={s.deskHours} onChange={(e)=>update({ deskHours: parseInt(e.target.value||"0") })}/></label>
           <label>Sleep hours <input type="number" min={0} value={s.sleepHours} onChange={(e)=>update({ sleepHours: parseInt(e.target.value||"0") })}/></label>
           <label>Stress
-            <select value={s.stress} onChange={(e)=>update({ stress: e.target.value as any })}>
+            <select value={s.stress} onChange={(e)=>update({ stress: e.target.value as SymptomData["stress"] })}>
               <option>low</option><option>med</option><option>high</option>
             </select>
           </label>
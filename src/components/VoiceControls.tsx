@@ -0,0 +1,20 @@
+import type { VoiceSettings } from "./exercises/voice";
+
+export default function VoiceControls({ settings, onChange }: {
+  settings: VoiceSettings; onChange: (s: VoiceSettings) => void;
+}) {
+  const supported = typeof window !== "undefined" && "speechSynthesis" in window;
+  if (!supported) return <span style={{ fontSize:13, color:"#999" }}>Voice coaching isn't available in this browser.</span>;
+
+  return (
+    <div style={{ display:"flex", gap:12, alignItems:"center", fontSize:13, color:"#555" }}>
+      <label>
+        <input type="checkbox" checked={!settings.muted} onChange={(e)=>onChange({ ...settings, muted: !e.target.checked })}/> Voice coaching
+      </label>
+      <label style={{ opacity: settings.muted ? 0.5 : 1 }}>
+        Speed <input type="range" min={0.6} max={1.6} step={0.1} value={settings.rate} disabled={settings.muted}
+          onChange={(e)=>onChange({ ...settings, rate: parseFloat(e.target.value) })}/> {settings.rate.toFixed(1)}×
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import * as tf from "@tensorflow/tfjs";
+import "@tensorflow/tfjs-backend-webgl";
+import * as posedetection from "@tensorflow-models/pose-detection";
+import type { KP } from "../exercises/angles";
+import type { DetectorBackend, DetectorModel, DetectorSettings } from "./detectorConfig";
+
+/** Tried in this order after the chosen backend, so there's always one that loads. */
+const FALLBACK: DetectorBackend[] = ["webgl", "wasm", "cpu"];
+
+/** Joint names the model reports. */
+export function modelKeypoints(model: DetectorModel): string[] {
+  const m = model === "blazepose" ? posedetection.SupportedModels.BlazePose : posedetection.SupportedModels.MoveNet;
+  return Object.keys(posedetection.util.getKeypointIndexByName(m));
+}
+
+/** Which of `names` the model can't see at all. */
+export function missingKeypoints(model: DetectorModel, names: string[]): string[] {
+  const has = new Set(modelKeypoints(model));
+  return names.filter(n => !has.has(n));
+}
+
+/** A video on the page, or a frame copied out of one (which is all a worker can be handed). */
+export type PoseFrame = HTMLVideoElement | ImageBitmap;
+
+/** A loaded model; the loop calls it the same way whichever model or backend runs underneath. */
+export interface PoseDetector {
+  readonly model: DetectorModel;
+  /** The backend actually in use, after any fallback. */
+  readonly backend: DetectorBackend;
+  /** True when the model runs in a worker, off the page's thread. */
+  readonly inWorker: boolean;
+  /** Keypoints of the first person found, in video pixels, or null if nobody is in frame. */
+  estimate(frame: PoseFrame): Promise<KP[] | null>;
+  /** True once the model has stopped for good (its worker crashed); every frame is rejected after that. */
+  readonly lost: boolean;
+  dispose(): void;
+}
+
+async function loadBackend(backend: DetectorBackend): Promise<boolean> {
+  try {
+    if (backend === "wasm") {
+      // Only fetched when chosen; the binaries are served by Vite from the package
+      const [wasm, plain, simd, threaded] = await Promise.all([
+        import("@tensorflow/tfjs-backend-wasm"),
+        import("@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url"),
+        import("@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url"),
+        import("@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url"),
+      ]);
+      wasm.setWasmPaths({
+        "tfjs-backend-wasm.wasm": plain.default,
+        "tfjs-backend-wasm-simd.wasm": simd.default,
+        "tfjs-backend-wasm-threaded-simd.wasm": threaded.default,
+      });
+    }
+    // Resolves false (rather than throwing) when the backend can't initialise here
+    return await tf.setBackend(backend);
+  } catch (e) {
+    console.warn(`Backend ${backend} unavailable`, e);
+    return false;
+  }
+}
+
+/**
+ * Loads the chosen model on the chosen backend, falling back through WebGL,
+ * WASM and CPU when the browser can't run it (no GPU, WebGL blocked).
+ */
+export async function createPoseDetector({ model, backend }: DetectorSettings): Promise<PoseDetector> {
+  let active: DetectorBackend | null = null;
+  for (const b of [backend, ...FALLBACK.filter(f => f !== backend)]) {
+    if (await loadBackend(b)) {
+      active = b;
+      break;
+    }
+  }
+  if (!active) throw new Error("No TensorFlow.js backend could be initialised in this browser.");
+  await tf.ready();
+
+  const detector = model === "blazepose"
+    ? await posedetection.createDetector(posedetection.SupportedModels.BlazePose, {
+      runtime: "tfjs",
+      modelType: "full",
+      // We smooth with our own filter, on the frame's own timestamps
+      enableSmoothing: false,
+    })
+    : await posedetection.createDetector(posedetection.SupportedModels.MoveNet, {
+      modelType: model === "movenet-thunder"
+        ? posedetection.movenet.modelType.SINGLEPOSE_THUNDER
+        : posedetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
+    });
+
+  return {
+    model,
+    backend: active,
+    inWorker: false,
+    lost: false,
+    async estimate(frame) {
+      // IMPORTANT: no flip; keypoints must match the frame as drawn
+      const poses = await detector.estimatePoses(frame, { flipHorizontal: false, maxPoses: 1 });
+      return (poses[0]?.keypoints as KP[] | undefined) ?? null;
+    },
+    dispose: () => detector.dispose(),
+  };
+}
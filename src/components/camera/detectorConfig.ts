@@ -0,0 +1,22 @@
+/**
+ * Which pose model and backend to run. Kept apart from detector.ts so
+ * settings can be stored and shown without pulling in TensorFlow.js.
+ */
+export type DetectorModel = "movenet-lightning" | "movenet-thunder" | "blazepose";
+export type DetectorBackend = "webgl" | "wasm" | "cpu";
+
+export type DetectorSettings = { model: DetectorModel; backend: DetectorBackend };
+
+export const DEFAULT_DETECTOR: DetectorSettings = { model: "movenet-lightning", backend: "webgl" };
+
+export const DETECTOR_MODELS: Record<DetectorModel, { name: string; description: string }> = {
+  "movenet-lightning": { name: "MoveNet Lightning", description: "Fastest; 17 joints. Good on laptops and phones." },
+  "movenet-thunder": { name: "MoveNet Thunder", description: "More accurate, slower; 17 joints." },
+  "blazepose": { name: "BlazePose", description: "33 points including heels and toes, for gait and hinge; slowest." },
+};
+
+export const DETECTOR_BACKENDS: Record<DetectorBackend, string> = {
+  webgl: "WebGL (GPU)",
+  wasm: "WebAssembly",
+  cpu: "CPU (slowest)",
+};
@@ -0,0 +1,268 @@
+import type { KP } from "../exercises/angles";
+import { decodeFrame } from "./recording";
+import type { KeypointRecording } from "./recording";
+
+/**
+ * Where the detection loop's frames come from. A source feeds a (hidden)
+ * video element; the loop reads frames off that element whatever the source,
+ * so detection, scoring and the overlay don't care if it's live or a clip.
+ */
+export interface FrameSource {
+  readonly kind: "webcam" | "file" | "replay";
+  /** Feeds the element and resolves once it has a frame to read. */
+  start(video: HTMLVideoElement): Promise<void>;
+  /** Releases the camera, or the file's object URL. Can be started again after. */
+  stop(): void;
+  /**
+   * Timestamp of the frame on show, in ms: the wall clock for a camera, the
+   * media time for a file, so timing-based checks follow the footage.
+   */
+  now(): number;
+  /**
+   * Keypoints for the frame on show, from sources that already carry them (a
+   * recording); the loop uses these instead of running the detector.
+   */
+  keypoints?(): KP[] | null;
+  /** Frame size in px, for sources with no video to read it from. */
+  size?(): { width: number; height: number };
+}
+
+/** Size of the frames the keypoints are in. */
+export function frameSize(source: FrameSource, video: HTMLVideoElement): { width: number; height: number } {
+  return source.size?.() ?? { width: video.videoWidth, height: video.videoHeight };
+}
+
+export function createWebcamSource(constraints: MediaTrackConstraints = { facingMode: "user" }): FrameSource {
+  let stream: MediaStream | null = null;
+  let video: HTMLVideoElement | null = null;
+  // Bumped on stop, so a start still waiting on permission doesn't leave the camera on
+  let session = 0;
+
+  return {
+    kind: "webcam",
+    async start(v) {
+      const id = ++session;
+      video = v;
+      const s = await navigator.mediaDevices.getUserMedia({ video: constraints, audio: false });
+      if (id !== session) {
+        s.getTracks().forEach(t => t.stop());
+        return;
+      }
+      stream = s;
+      v.removeAttribute("src");
+      v.srcObject = stream;
+      await loaded(v, "loadedmetadata");
+      await v.play();
+    },
+    stop() {
+      session++;
+      stream?.getTracks().forEach(t => t.stop());
+      stream = null;
+      if (video) video.srcObject = null;
+    },
+    now: () => performance.now(),
+  };
+}
+
+/** Frame rate assumed when stepping; browsers don't report a file's own. */
+const DEFAULT_FPS = 30;
+/** Playback events the controls re-render on. */
+const EVENTS = ["play", "pause", "timeupdate", "seeked", "durationchange", "ended"];
+
+/**
+ * Plays back a clip filmed elsewhere (MP4/WebM from a phone, or footage that
+ * reproduces a scoring bug). Starts paused on the first frame.
+ */
+export function createVideoFileSource(file: File, { fps = DEFAULT_FPS } = {}) {
+  let url: string | null = null;
+  let video: HTMLVideoElement | null = null;
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(l => l());
+
+  const seek = (sec: number) => {
+    if (video) video.currentTime = Math.min(Math.max(0, sec), video.duration || 0);
+  };
+
+  return {
+    kind: "file" as const,
+    file,
+    fps,
+    async start(v: HTMLVideoElement) {
+      video = v;
+      v.srcObject = null;
+      v.muted = true;
+      url ??= URL.createObjectURL(file);
+      v.src = url;
+      EVENTS.forEach(e => v.addEventListener(e, notify));
+      await loaded(v, "loadeddata");
+      notify();
+    },
+    stop() {
+      if (video) {
+        video.pause();
+        EVENTS.forEach(e => video?.removeEventListener(e, notify));
+        video.removeAttribute("src");
+        video.load();
+        video = null;
+      }
+      if (url) URL.revokeObjectURL(url);
+      url = null;
+    },
+    now: () => (video?.currentTime ?? 0) * 1000,
+    play: () => { void video?.play(); },
+    pause: () => video?.pause(),
+    seek,
+    /** Pauses and moves by whole frames (negative steps back). */
+    step(frames: number) {
+      if (!video) return;
+      video.pause();
+      seek(video.currentTime + frames / fps);
+    },
+    get duration() { return video?.duration || 0; },
+    get currentTime() { return video?.currentTime ?? 0; },
+    get paused() { return video?.paused ?? true; },
+    /** Called on play, pause, seek and time updates, for playback controls. */
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
+
+export type VideoFileSource = ReturnType<typeof createVideoFileSource>;
+
+export const isVideoFile = (s: FrameSource): s is VideoFileSource => s.kind === "file";
+
+/**
+ * Plays back a keypoint recording (see recording.ts) in place of the camera:
+ * the loop scores the recorded keypoints without running the detector, so a
+ * session can be re-run exactly. Starts paused on the first frame.
+ */
+export function createReplaySource(rec: KeypointRecording, name = "Recording") {
+  const frames = rec.frames;
+  const end = frames.length ? frames[frames.length - 1].t : 0;
+  // Playback position in ms; while playing it's `base` plus the time since `since`
+  let base = 0;
+  let since: number | null = null;
+  let ticker: number | undefined;
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(l => l());
+
+  const position = () => {
+    if (since === null) return base;
+    const pos = base + performance.now() - since;
+    if (pos < end) return pos;
+    pause();
+    base = end;
+    return end;
+  };
+
+  /** Index of the last frame at or before `ms`. */
+  const indexAt = (ms: number) => {
+    let lo = 0, hi = frames.length - 1;
+    while (lo < hi) {
+      const m = (lo + hi + 1) >> 1;
+      if (frames[m].t <= ms) lo = m;
+      else hi = m - 1;
+    }
+    return lo;
+  };
+
+  function pause() {
+    if (since === null) return;
+    base = Math.min(end, base + performance.now() - since);
+    since = null;
+    clearInterval(ticker);
+    notify();
+  }
+
+  function seek(sec: number) {
+    base = Math.min(end, Math.max(0, sec * 1000));
+    if (since !== null) since = performance.now();
+    notify();
+  }
+
+  return {
+    kind: "replay" as const,
+    name,
+    recording: rec,
+    /** Average rate the recording was made at, for the seek bar's step. */
+    fps: end > 0 ? (frames.length - 1) / (end / 1000) : 30,
+    async start() {
+      base = 0;
+      since = null;
+    },
+    stop() {
+      pause();
+    },
+    now: () => frames.length ? frames[indexAt(position())].t : 0,
+    keypoints: () => frames.length ? decodeFrame(rec, frames[indexAt(position())]) : null,
+    size: () => ({ width: rec.width, height: rec.height }),
+    play() {
+      if (since !== null) return;
+      if (base >= end) base = 0;
+      since = performance.now();
+      // Nothing fires time updates for us; tick the controls along
+      ticker = window.setInterval(notify, 250);
+      notify();
+    },
+    pause,
+    seek,
+    /** Pauses and moves by recorded frames (negative steps back). */
+    step(n: number) {
+      pause();
+      const i = Math.min(frames.length - 1, Math.max(0, indexAt(base) + n));
+      base = frames[i]?.t ?? 0;
+      notify();
+    },
+    get duration() { return end / 1000; },
+    get currentTime() { return position() / 1000; },
+    get paused() { return since === null; },
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
+
+export type ReplaySource = ReturnType<typeof createReplaySource>;
+
+export const isReplay = (s: FrameSource): s is ReplaySource => s.kind === "replay";
+
+/** Sources with play/pause/seek/step controls. */
+export type PlaybackSource = VideoFileSource | ReplaySource;
+
+export const isPlayback = (s: FrameSource): s is PlaybackSource => s.kind !== "webcam";
+
+/**
+ * Tracks frame timestamps for the detection loop. A paused clip shows the
+ * same frame over and over, which needn't be detected again; a clip that
+ * jumps back (seek, loop) invalidates anything smoothed over time.
+ */
+export function createFrameClock() {
+  let last: number | null = null;
+
+  function tick(t: number): "new" | "same" | "rewound" {
+    const prev = last;
+    last = t;
+    if (prev === null || t > prev) return "new";
+    return t === prev ? "same" : "rewound";
+  }
+
+  function reset() {
+    last = null;
+  }
+
+  return { tick, reset };
+}
+
+function loaded(v: HTMLVideoElement, event: "loadedmetadata" | "loadeddata"): Promise<void> {
+  const ready = event === "loadeddata" ? 2 : 1;
+  if (v.readyState >= ready) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const done = () => { v.removeEventListener("error", fail); resolve(); };
+    const fail = () => { v.removeEventListener(event, done); reject(v.error ?? new Error("Video failed to load")); };
+    v.addEventListener(event, done, { once: true });
+    v.addEventListener("error", fail, { once: true });
+  });
+}
@@ -0,0 +1,84 @@
+export type InferenceStats = {
+  /** Frames the model finished per second. */
+  fps: number;
+  /** Mean ms from handing a frame over to getting its keypoints; null if none finished. */
+  latencyMs: number | null;
+  /** Share (0–1) of displayed frames the model didn't see because it was still busy. */
+  skipped: number;
+};
+
+/**
+ * Keeps one frame at a time in flight. While the model is busy the loop
+ * just shows new frames and skips them, so when inference falls behind the
+ * model sees fewer frames instead of a growing queue of stale ones. Also
+ * measures throughput and latency for the readout.
+ */
+export function createInferenceMeter({ windowMs = 1000 }: { windowMs?: number } = {}) {
+  let busy = false;
+  let sentAt = 0;
+  let windowStart: number | null = null;
+  let done = 0, latencySum = 0, shown = 0, skipped = 0;
+
+  /** A frame the model is too busy to take. */
+  function skip() {
+    shown++;
+    skipped++;
+  }
+
+  /** A frame handed to the model. */
+  function begin(now = performance.now()) {
+    shown++;
+    busy = true;
+    sentAt = now;
+  }
+
+  /** The model answered (or failed) the frame in flight. */
+  function end(now = performance.now()) {
+    if (!busy) return;
+    busy = false;
+    done++;
+    latencySum += now - sentAt;
+  }
+
+  /** Stats over the last window, once per window; null in between. */
+  function read(now = performance.now()): InferenceStats | null {
+    if (windowStart === null) windowStart = now;
+    const elapsed = now - windowStart;
+    if (elapsed < windowMs) return null;
+    const stats = {
+      fps: done * 1000 / elapsed,
+      latencyMs: done ? latencySum / done : null,
+      skipped: shown ? skipped / shown : 0,
+    };
+    windowStart = now;
+    done = latencySum = shown = skipped = 0;
+    return stats;
+  }
+
+  function reset() {
+    busy = false;
+    windowStart = null;
+    done = latencySum = shown = skipped = 0;
+  }
+
+  return {
+    skip, begin, end, read, reset,
+    get busy() { return busy; },
+  };
+}
+
+export type InferenceMeter = ReturnType<typeof createInferenceMeter>;
+
+/**
+ * How often a score shown outside the canvas catches up with it. The overlay
+ * draws every frame's score; React state only needs a few updates a second.
+ */
+export const SCORE_UI_MS = 250;
+
+/**
+ * For list state set from the loop: keeps the current array when the new
+ * one has the same items, so an unchanged frame doesn't re-render.
+ */
+export function keepIfSame(prev: string[], next: string[]): string[] {
+  return prev.length === next.length && prev.every((v, i) => v === next[i]) ? prev : next;
+}
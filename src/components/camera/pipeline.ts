@@ -0,0 +1,328 @@
+import type { KP } from "../exercises/angles";
+import { createKeypointFilter } from "../exercises/smoothing";
+import { loadDetectorSettings, saveDetectorSettings } from "../session/store";
+import type { PoseDetector } from "./detector";
+import { DETECTOR_MODELS } from "./detectorConfig";
+import type { DetectorSettings } from "./detectorConfig";
+import { createFrameClock, createWebcamSource, frameSize } from "./frameSource";
+import type { FrameSource } from "./frameSource";
+import { createInferenceMeter } from "./inference";
+import type { InferenceStats } from "./inference";
+import { createKeypointRecorder } from "./recording";
+import { loadPoseDetector } from "./workerDetector";
+
+export const DEFAULT_CAMERA: MediaTrackConstraints = {
+  facingMode: "user",
+  width: { ideal: 960, max: 1280 },
+  height: { ideal: 720, max: 1024 },
+};
+
+/** One result from the model, or one frame of a keypoint replay. */
+export type PoseEvent = {
+  /** As detected (or recorded); null when nobody is in frame. */
+  raw: KP[] | null;
+  /** Smoothed, with confidence carried across frames; what scorers should use. */
+  keypoints: KP[] | null;
+  /** The frame's timestamp (media time for a clip). */
+  t: number;
+  /** Size of the frame the keypoints are in. */
+  size: { width: number; height: number };
+  /** First frame after a clip was sought backwards: timing and history no longer follow on. */
+  rewound: boolean;
+  /** Showing the frame (or a later one), e.g. to take a photo of it. */
+  video: HTMLVideoElement;
+};
+
+export type PipelineListener = {
+  /** Every displayed frame: draw the video and the latest overlay. */
+  frame?(video: HTMLVideoElement): void;
+  /** Each pose result. */
+  pose?(e: PoseEvent): void;
+  /**
+   * Seated modes only need a frame every so often. The loop runs on
+   * animation frames unless every listener asks for an interval.
+   */
+  intervalMs?: number;
+};
+
+export type SourceStatus =
+  | { state: "loading" }
+  | { state: "ready" }
+  | { state: "error"; message: string };
+
+export type ModelStatus =
+  | { state: "loading"; message: string }
+  | { state: "ready" }
+  | { state: "error"; message: string };
+
+/** Times a model that stops mid-session is reloaded before the pipeline gives up on it. */
+const MAX_MODEL_RELOADS = 2;
+
+function describeSourceError(source: FrameSource, error: unknown): string {
+  if (source.kind === "file") return "Couldn't play that video. Try an MP4 or WebM file.";
+  if (error instanceof DOMException) {
+    switch (error.name) {
+      case "NotAllowedError": return "Camera access denied. Please grant camera permissions.";
+      case "NotFoundError": return "No camera found. Please connect a camera.";
+      default: return `Camera error: ${error.message}`;
+    }
+  }
+  return `Initialization failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+}
+
+/**
+ * The camera (or clip, or replay), the pose model and the frame loop, owned
+ * once and shared by every view that subscribes. The source and model open
+ * with the first subscriber and stay open until the pipeline is detached, so
+ * views can come and go (session steps) without reopening the camera.
+ *
+ * Only one frame is with the model at a time; frames shown while it's busy
+ * are skipped. Results are smoothed, recorded when recording is on, and
+ * handed to every `pose` listener.
+ */
+export function createPosePipeline() {
+  let video: HTMLVideoElement | null = null;
+  let source: FrameSource = createWebcamSource(DEFAULT_CAMERA);
+  let sourceStatus: SourceStatus = { state: "loading" };
+  let settings: DetectorSettings = loadDetectorSettings();
+  let detector: PoseDetector | null = null;
+  let modelStatus: ModelStatus = { state: "loading", message: "Loading model..." };
+  let modelReloads = 0;
+  let inference: InferenceStats | null = null;
+  let running = false;
+  // Bumped whenever the source or model is swapped or the pipeline closes, so late arrivals are dropped
+  let sourceSession = 0;
+  let modelSession = 0;
+  let raf = 0;
+  let timer: number | undefined;
+
+  const listeners = new Set<PipelineListener>();
+  const watchers = new Set<() => void>();
+  const filter = createKeypointFilter();
+  const recorder = createKeypointRecorder();
+  const meter = createInferenceMeter();
+  let clock = createFrameClock();
+
+  const changed = () => watchers.forEach(w => w());
+
+  function openSource() {
+    const v = video;
+    if (!v) return;
+    const id = ++sourceSession;
+    const s = source;
+    sourceStatus = { state: "loading" };
+    inference = null;
+    clock = createFrameClock();
+    filter.reset();
+    changed();
+
+    s.start(v)
+      .then(() => {
+        if (id !== sourceSession) return;
+        sourceStatus = { state: "ready" };
+        changed();
+      })
+      .catch(error => {
+        if (id !== sourceSession) return;
+        console.error("Source Initialization Error:", error);
+        sourceStatus = { state: "error", message: describeSourceError(s, error) };
+        changed();
+      });
+  }
+
+  function loadModel() {
+    const id = ++modelSession;
+    detector?.dispose();
+    detector = null;
+    modelStatus = { state: "loading", message: `Loading ${DETECTOR_MODELS[settings.model].name}...` };
+    changed();
+
+    loadPoseDetector(settings)
+      .then(d => {
+        if (id !== modelSession) {
+          d.dispose();
+          return;
+        }
+        detector = d;
+        modelStatus = { state: "ready" };
+        changed();
+      })
+      .catch(error => {
+        if (id !== modelSession) return;
+        console.error("Model Initialization Error:", error);
+        modelStatus = { state: "error", message: `Model failed to load: ${error instanceof Error ? error.message : "Unknown error"}` };
+        changed();
+      });
+  }
+
+  /**
+   * The model stopped for good mid-session (its worker crashed). Reload it a
+   * couple of times; after that, stop detecting and show the error rather
+   * than failing on every frame.
+   */
+  function modelLost(error: unknown) {
+    console.error("Pose model stopped:", error);
+    if (modelReloads < MAX_MODEL_RELOADS) {
+      modelReloads++;
+      loadModel();
+      return;
+    }
+    modelSession++;
+    detector?.dispose();
+    detector = null;
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    modelStatus = { state: "error", message: `Pose model stopped: ${reason}. Choose a model under "Detector" to try again.` };
+    changed();
+  }
+
+  function emit(raw: KP[] | null, t: number, rewound: boolean) {
+    const v = video;
+    if (!v) return;
+    if (raw) recorder.add(raw, t);
+    const e: PoseEvent = { raw, keypoints: raw && filter.filter(raw, t), t, rewound, size: frameSize(source, v), video: v };
+    for (const l of listeners) {
+      try {
+        l.pose?.(e);
+      } catch (error) {
+        console.error("Error in pose listener:", error);
+      }
+    }
+  }
+
+  function detect(v: HTMLVideoElement) {
+    const det = detector;
+    // The model is still on an earlier frame (or loading): this one is only shown
+    if (!source.keypoints && (!det || meter.busy)) {
+      if (det) meter.skip();
+      return;
+    }
+
+    // A paused clip keeps showing the same frame; nothing new to detect
+    const t = source.now();
+    const frame = clock.tick(t);
+    if (frame === "same") return;
+    // Seeking back in a clip: smoothing no longer follows on; listeners reset their own history
+    const rewound = frame === "rewound";
+    if (rewound) filter.reset();
+
+    if (source.keypoints) {
+      emit(source.keypoints(), t, rewound);
+      return;
+    }
+    if (!det) return;
+    const id = sourceSession;
+    meter.begin();
+    det.estimate(v)
+      .then(raw => {
+        meter.end();
+        if (running && id === sourceSession && det === detector) emit(raw, t, rewound);
+      })
+      .catch(error => {
+        meter.end();
+        // A model being swapped out can fail mid-frame; that frame is just dropped
+        if (det !== detector) return;
+        if (det.lost) modelLost(error);
+        else console.error("Error in pose detection:", error);
+      });
+  }
+
+  function tick() {
+    const v = video;
+    if (!running || !v) return;
+    for (const l of listeners) l.frame?.(v);
+
+    const stats = meter.read();
+    if (stats) {
+      inference = stats;
+      changed();
+    }
+    if (sourceStatus.state === "ready" && [...listeners].some(l => l.pose)) detect(v);
+    schedule();
+  }
+
+  function schedule() {
+    cancelAnimationFrame(raf);
+    clearTimeout(timer);
+    // Nothing subscribed (a step with no tracking): the camera stays open but idle
+    if (!running || !listeners.size) return;
+    const intervals = [...listeners].map(l => l.intervalMs);
+    // Timers keep seated modes going in a background tab
+    if (intervals.every(ms => ms !== undefined)) timer = window.setTimeout(tick, Math.min(...intervals));
+    else raf = requestAnimationFrame(tick);
+  }
+
+  function open() {
+    if (running || !video || !listeners.size) return;
+    running = true;
+    modelReloads = 0;
+    openSource();
+    loadModel();
+    schedule();
+  }
+
+  function close() {
+    running = false;
+    sourceSession++;
+    modelSession++;
+    source.stop();
+    detector?.dispose();
+    detector = null;
+    meter.reset();
+    schedule();
+  }
+
+  return {
+    /** Gives the pipeline its (hidden) video element; opens once something subscribes. */
+    attach(v: HTMLVideoElement) {
+      video = v;
+      open();
+    },
+    /** Closes the camera or clip and the model. */
+    detach() {
+      close();
+      video = null;
+    },
+    /** Frames and poses until the returned function is called. */
+    subscribe(listener: PipelineListener): () => void {
+      listeners.add(listener);
+      if (running) schedule();
+      else open();
+      return () => {
+        listeners.delete(listener);
+        schedule();
+      };
+    },
+    /** Called whenever the source, model or readout changes. */
+    watch(fn: () => void): () => void {
+      watchers.add(fn);
+      return () => void watchers.delete(fn);
+    },
+    setSource(s: FrameSource) {
+      if (s === source) return;
+      source.stop();
+      source = s;
+      if (running) openSource();
+      else changed();
+    },
+    setDetectorSettings(d: DetectorSettings) {
+      settings = d;
+      saveDetectorSettings(d);
+      modelReloads = 0;
+      if (running) loadModel();
+      else changed();
+    },
+    frameSize: () => video ? frameSize(source, video) : { width: 0, height: 0 },
+    recorder,
+    get source() { return source; },
+    get sourceStatus() { return sourceStatus; },
+    get detectorSettings() { return settings; },
+    get detector() { return detector; },
+    /** Loading, running, or failed (to load, or for good mid-session) with a message to show. */
+    get modelStatus() { return modelStatus; },
+    get inference() { return inference; },
+    /** Frames are coming and something can turn them into poses. */
+    get ready() { return sourceStatus.state === "ready" && (detector !== null || !!source.keypoints); },
+  };
+}
+
+export type PosePipeline = ReturnType<typeof createPosePipeline>;
@@ -0,0 +1,17 @@
+import { createContext, useContext, useEffect, useReducer } from "react";
+import type { PosePipeline } from "./pipeline";
+
+export const PosePipelineContext = createContext<PosePipeline | null>(null);
+
+/**
+ * The pipeline from the nearest `PosePipelineProvider`. Re-renders when its
+ * source, model or readout changes; frames and poses come through
+ * `subscribe`, not React state.
+ */
+export function usePosePipeline(): PosePipeline {
+  const pipeline = useContext(PosePipelineContext);
+  const [, rerender] = useReducer((n: number) => n + 1, 0);
+  useEffect(() => pipeline?.watch(rerender), [pipeline]);
+  if (!pipeline) throw new Error("usePosePipeline needs a PosePipelineProvider above it.");
+  return pipeline;
+}
@@ -0,0 +1,48 @@
+import { createPoseDetector } from "./detector";
+import type { PoseDetector } from "./detector";
+import type { DetectorBackend, DetectorSettings } from "./detectorConfig";
+import type { KP } from "../exercises/angles";
+
+/*
+ * Runs the pose model off the page's thread. The page posts frames as
+ * ImageBitmaps (transferred, not copied); TensorFlow.js draws them on an
+ * OffscreenCanvas for WebGL here, so inference never holds up the UI.
+ */
+
+/** Page → worker. */
+export type PoseWorkerRequest =
+  | { type: "load"; settings: DetectorSettings }
+  | { type: "estimate"; id: number; frame: ImageBitmap };
+
+/** Worker → page. An error without an id means the model itself failed to load. */
+export type PoseWorkerResponse =
+  | { type: "loaded"; backend: DetectorBackend }
+  | { type: "pose"; id: number; keypoints: KP[] | null }
+  | { type: "error"; id?: number; message: string };
+
+let detector: Promise<PoseDetector> | null = null;
+
+const reply = (msg: PoseWorkerResponse) => postMessage(msg);
+const errorMessage = (e: unknown) => e instanceof Error ? e.message : String(e);
+
+addEventListener("message", async ({ data }: MessageEvent<PoseWorkerRequest>) => {
+  if (data.type === "load") {
+    detector = createPoseDetector(data.settings);
+    try {
+      reply({ type: "loaded", backend: (await detector).backend });
+    } catch (e) {
+      reply({ type: "error", message: errorMessage(e) });
+    }
+    return;
+  }
+
+  try {
+    if (!detector) throw new Error("Model not loaded.");
+    reply({ type: "pose", id: data.id, keypoints: await (await detector).estimate(data.frame) });
+  } catch (e) {
+    reply({ type: "error", id: data.id, message: errorMessage(e) });
+  } finally {
+    // Frees the frame's GPU memory now rather than whenever it's collected
+    data.frame.close();
+  }
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { createKeypointRecorder, decodeFrame, parseRecording } from "./recording";
+
+const pose = (x: number) => [
+  { name: "left_hip", x, y: 200, score: 0.9 },
+  { name: "right_hip", x: x + 10, y: 200, score: 0.8 },
+];
+
+describe("createKeypointRecorder", () => {
+  it("records ms from the first frame and round-trips through JSON", () => {
+    const r = createKeypointRecorder();
+    r.start("plank", 640, 480);
+    r.add(pose(100), 5000);
+    r.add(pose(101), 5033);
+    const rec = r.stop()!;
+    expect(rec.frames.map(f => f.t)).toEqual([0, 33]);
+    expect(decodeFrame(rec, rec.frames[1])).toEqual(pose(101));
+    expect(parseRecording(JSON.stringify(rec))).toEqual(rec);
+  });
+
+  it("keeps time moving forward when the source seeks back", () => {
+    const r = createKeypointRecorder();
+    r.start("hinge", 640, 480);
+    for (const now of [10_000, 10_033, 10_066, 2_000, 2_033, 2_033, 12_000]) r.add(pose(100), now);
+    const ts = r.stop()!.frames.map(f => f.t);
+    expect(ts).toEqual([0, 33, 66, 99, 132, 165, 10_132]);
+  });
+
+  it("ignores frames while stopped and drops empty recordings", () => {
+    const r = createKeypointRecorder();
+    r.add(pose(100), 0);
+    r.start("plank", 640, 480);
+    expect(r.stop()).toBeNull();
+  });
+});
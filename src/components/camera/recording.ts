@@ -0,0 +1,119 @@
+import type { KP } from "../exercises/angles";
+import type { ExerciseId } from "../exercises/registry";
+
+export const RECORDING_FORMAT = "posher-keypoints";
+export const RECORDING_VERSION = 1;
+
+/**
+ * What the detector produced for a session, before smoothing, so a replay
+ * runs the same filter, scorers and counters as the live loop did.
+ *
+ * Frames are compact: joint names are listed once and each frame carries
+ * `x, y, score` per joint in that order (video pixels, scores 0–1).
+ */
+export type KeypointRecording = {
+  format: typeof RECORDING_FORMAT;
+  version: typeof RECORDING_VERSION;
+  exercise: ExerciseId;
+  /** Video size in px; keypoints are in this space. */
+  width: number;
+  height: number;
+  recordedAt: string;
+  names: string[];
+  frames: RecordedFrame[];
+};
+
+/** `t` is ms from the first frame, strictly increasing. */
+export type RecordedFrame = { t: number; k: number[] };
+
+const round = (v: number, dp: number) => Math.round(v * 10 ** dp) / 10 ** dp;
+
+// Gap left in the recording where the source jumped back (about one frame at 30 fps)
+const REWIND_GAP_MS = 33;
+
+/** Collects raw keypoints frame by frame while recording is on. */
+export function createKeypointRecorder() {
+  let rec: KeypointRecording | null = null;
+  let t0 = 0;
+  let last = 0;
+
+  function start(exercise: ExerciseId, width: number, height: number) {
+    rec = {
+      format: RECORDING_FORMAT, version: RECORDING_VERSION,
+      exercise, width, height, recordedAt: new Date().toISOString(),
+      names: [], frames: [],
+    };
+  }
+
+  /**
+   * Feed the detector's keypoints with the frame's timestamp; ignored unless
+   * recording. When the source goes back (a clip seeked or looped), the
+   * recording's clock carries on from where it was instead, so replay can
+   * look frames up by time.
+   */
+  function add(kps: KP[], now: number) {
+    if (!rec) return;
+    if (!rec.frames.length) {
+      t0 = now;
+      rec.names = kps.map((k, i) => k.name ?? String(i));
+    } else if (now <= last) {
+      t0 = now - rec.frames[rec.frames.length - 1].t - REWIND_GAP_MS;
+    }
+    last = now;
+    const k: number[] = [];
+    for (const name of rec.names) {
+      const p = kps.find((q, i) => (q.name ?? String(i)) === name);
+      k.push(p ? round(p.x, 1) : 0, p ? round(p.y, 1) : 0, round(p?.score ?? 0, 3));
+    }
+    rec.frames.push({ t: Math.round(now - t0), k });
+  }
+
+  /** Finishes the recording; null if it never got a frame. */
+  function stop(): KeypointRecording | null {
+    const out = rec?.frames.length ? rec : null;
+    rec = null;
+    return out;
+  }
+
+  return {
+    start, add, stop,
+    get recording() { return rec !== null; },
+    get frameCount() { return rec?.frames.length ?? 0; },
+  };
+}
+
+export type KeypointRecorder = ReturnType<typeof createKeypointRecorder>;
+
+/** The keypoints of one recorded frame, as the detector returned them. */
+export function decodeFrame(rec: KeypointRecording, frame: RecordedFrame): KP[] {
+  return rec.names.map((name, i) => ({ name, x: frame.k[i * 3], y: frame.k[i * 3 + 1], score: frame.k[i * 3 + 2] }));
+}
+
+/** Reads a saved recording, rejecting other files and versions this build can't replay. */
+export function parseRecording(json: string): KeypointRecording {
+  let data: Partial<KeypointRecording>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Not a keypoint recording (invalid JSON).");
+  }
+  if (data?.format !== RECORDING_FORMAT) throw new Error("Not a keypoint recording.");
+  if (data.version !== RECORDING_VERSION) {
+    throw new Error(`Recording version ${data.version} isn't supported (expected ${RECORDING_VERSION}).`);
+  }
+  const { names, frames } = data;
+  if (!Array.isArray(names) || !Array.isArray(frames) || frames.some(f => f.k?.length !== names.length * 3)) {
+    throw new Error("Recording is damaged: frames don't match the joint list.");
+  }
+  return data as KeypointRecording;
+}
+
+export function downloadRecording(rec: KeypointRecording) {
+  const blob = new Blob([JSON.stringify(rec)], { type: "application/json" });
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = `keypoints-${rec.exercise}-${rec.recordedAt.slice(0, 19).replace(/:/g, "")}.json`;
+  a.click();
+  // Give the download a moment to pick the blob up before letting it go
+  setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+}
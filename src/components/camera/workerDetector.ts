@@ -0,0 +1,103 @@
+import { createPoseDetector } from "./detector";
+import type { PoseDetector, PoseFrame } from "./detector";
+import type { DetectorSettings } from "./detectorConfig";
+import type { PoseWorkerRequest, PoseWorkerResponse } from "./pose.worker";
+import type { KP } from "../exercises/angles";
+
+/** The worker needs OffscreenCanvas for WebGL; without it the model would crawl along on the CPU there. */
+export function canUseWorker(): boolean {
+  return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap !== "undefined";
+}
+
+type Pending = { resolve: (kps: KP[] | null) => void; reject: (e: Error) => void };
+
+/**
+ * The model in a worker, behind the same interface as one on the page. Each
+ * frame is copied out of the video as an ImageBitmap and transferred, so
+ * the page only pays for the copy, not the inference.
+ */
+export function createWorkerDetector({ model, backend }: DetectorSettings): Promise<PoseDetector> {
+  const worker = new Worker(new URL("./pose.worker.ts", import.meta.url), { type: "module" });
+  const post = (msg: PoseWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(msg, transfer);
+  const pending = new Map<number, Pending>();
+  let nextId = 0;
+  let disposed = false;
+  let lost = false;
+
+  const fail = (error: Error) => {
+    for (const p of pending.values()) p.reject(error);
+    pending.clear();
+  };
+
+  // The worker died or the model broke after loading: nothing more will come back
+  const die = (error: Error) => {
+    if (disposed) return;
+    lost = true;
+    fail(error);
+    dispose();
+  };
+
+  const dispose = () => {
+    if (disposed) return;
+    disposed = true;
+    worker.terminate();
+    fail(new Error("Detector disposed."));
+  };
+
+  const estimate = async (frame: PoseFrame) => {
+    if (disposed) throw new Error("Detector disposed.");
+    const bitmap = frame instanceof ImageBitmap ? frame : await createImageBitmap(frame);
+    // Disposed while copying: a terminated worker would never answer
+    if (disposed) {
+      bitmap.close();
+      throw new Error("Detector disposed.");
+    }
+    const id = nextId++;
+    return new Promise<KP[] | null>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      post({ type: "estimate", id, frame: bitmap }, [bitmap]);
+    });
+  };
+
+  return new Promise((resolve, reject) => {
+    worker.addEventListener("message", ({ data }: MessageEvent<PoseWorkerResponse>) => {
+      if (data.type === "loaded") {
+        resolve({ model, backend: data.backend, inWorker: true, estimate, dispose, get lost() { return lost; } });
+        return;
+      }
+      if (data.type === "pose") {
+        pending.get(data.id)?.resolve(data.keypoints);
+        pending.delete(data.id);
+      } else if (data.id !== undefined) {
+        pending.get(data.id)?.reject(new Error(data.message));
+        pending.delete(data.id);
+      } else {
+        const error = new Error(data.message);
+        reject(error);
+        die(error);
+      }
+    });
+    // The script failed to load, or the worker died
+    worker.addEventListener("error", (e) => {
+      const error = new Error(e.message || "Pose worker failed.");
+      reject(error);
+      die(error);
+    });
+    post({ type: "load", settings: { model, backend } });
+  });
+}
+
+/**
+ * Loads the model in a worker where the browser allows it, so inference
+ * never blocks the page, and on the page otherwise.
+ */
+export async function loadPoseDetector(settings: DetectorSettings): Promise<PoseDetector> {
+  if (canUseWorker()) {
+    try {
+      return await createWorkerDetector(settings);
+    } catch (e) {
+      console.warn("Pose worker unavailable; running the model on the page", e);
+    }
+  }
+  return createPoseDetector(settings);
+}
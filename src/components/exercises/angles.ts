@@ -1,5 +1,22 @@
 export type KP = { x: number; y: number; name?: string; score?: number };
 
+export type Side = "left" | "right";
+
+/**
+ * `unknown` lists checks that were skipped because their joints weren't seen.
+ * `side` is set by one-sided moves once it's clear which side is working.
+ */
+export type ScoreResult = { score: number; cues: string[]; unknown?: string[]; side?: Side };
+
+/**
+ * Per-frame context for scorers. `unit` is the user's torso length in pixels
+ * (see body.ts): distance checks divide by it so they hold at any distance.
+ */
+export type ScoreContext = { unit: number; now: number };
+
+/** Joints scored below this are treated as not seen. */
+export const MIN_CONFIDENCE = 0.3;
+
 export function angleDeg(a: KP, b: KP, c: KP) {
   const v1 = { x: a.x - b.x, y: a.y - b.y };
   const v2 = { x: c.x - b.x, y: c.y - b.y };
@@ -8,6 +25,49 @@ export function angleDeg(a: KP, b: KP, c: KP) {
   const cos = Math.min(1, Math.max(-1, dot / (m1 * m2 + 1e-9)));
   return (Math.acos(cos) * 180) / Math.PI;
 }
-export function get(kps: KP[], name: string): KP {
-  return kps.find(k => k.name === name) || { x: 0, y: 0 };
+
+/** Named joint, or null when it's missing or too low-confidence to trust. */
+export function get(kps: KP[], name: string): KP | null {
+  const k = kps.find(k => k.name === name);
+  return k && (k.score ?? 1) >= MIN_CONFIDENCE ? k : null;
+}
+
+/** Angle at b, or null if any joint is unknown. */
+export function angleOf(a: KP | null, b: KP | null, c: KP | null): number | null {
+  return a && b && c ? angleDeg(a, b, c) : null;
+}
+
+/**
+ * Midpoint of a left/right pair. Falls back to whichever side is seen,
+ * since side-on views often hide the far limb.
+ */
+export function mid(a: KP | null, b: KP | null): KP | null {
+  if (a && b) return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, score: Math.min(a.score ?? 1, b.score ?? 1) };
+  return a ?? b;
+}
+
+/** Vertical offset between a left/right pair, or null if either is unknown. */
+export function tilt(a: KP | null, b: KP | null): number | null {
+  return a && b ? Math.abs(a.y - b.y) : null;
+}
+
+/** Clamps to 0–100; a result with every check unknown scores 0. */
+export function finishScore(score: number, cues: string[], unknown: string[], checks: number): ScoreResult {
+  if (unknown.length >= checks) return { score: 0, cues, unknown };
+  return { score: Math.max(0, Math.min(100, score)), cues, unknown };
+}
+
+/**
+ * How far p sits below the straight line through a and b, in pixels
+ * (image y grows downwards, so negative means above). Null if any joint is unknown.
+ */
+export function belowLine(a: KP | null, b: KP | null, p: KP | null): number | null {
+  if (!a || !b || !p) return null;
+  const t = Math.abs(b.x - a.x) < 1e-6 ? 0.5 : (p.x - a.x) / (b.x - a.x);
+  return p.y - (a.y + t * (b.y - a.y));
+}
+
+/** Angle of the a→b segment away from vertical (0 = straight up/down), in degrees. */
+export function fromVertical(a: KP | null, b: KP | null): number | null {
+  return a && b ? (Math.atan2(Math.abs(b.x - a.x), Math.abs(b.y - a.y)) * 180) / Math.PI : null;
 }
@@ -0,0 +1,129 @@
+import { get, mid } from "./angles";
+import type { KP, ScoreContext } from "./angles";
+import { classifyView } from "./view";
+
+/**
+ * Segment lengths in torso lengths (mid-shoulder to mid-hip), so a profile
+ * measured at one distance from the camera holds at any other.
+ */
+export type BodyProfile = {
+  shoulderWidth: number;
+  hipWidth: number;
+  upperArm: number;
+  forearm: number;
+  thigh: number;
+  shin: number;
+  /** Null for the built-in defaults. */
+  measuredAt: number | null;
+};
+
+type Segment = Exclude<keyof BodyProfile, "measuredAt">;
+
+/** Typical adult proportions, used until the user calibrates. */
+export const DEFAULT_BODY: BodyProfile = {
+  shoulderWidth: 0.75, hipWidth: 0.5,
+  upperArm: 0.6, forearm: 0.5,
+  thigh: 0.85, shin: 0.8,
+  measuredAt: null,
+};
+
+/** Rough torso length at 2–2.5 m in a 720p frame, for frames where nothing can be measured. */
+const FALLBACK_UNIT_PX = 170;
+
+const SEGMENTS: Record<Segment, [string, string][]> = {
+  shoulderWidth: [["left_shoulder", "right_shoulder"]],
+  hipWidth: [["left_hip", "right_hip"]],
+  upperArm: [["left_shoulder", "left_elbow"], ["right_shoulder", "right_elbow"]],
+  forearm: [["left_elbow", "left_wrist"], ["right_elbow", "right_wrist"]],
+  thigh: [["left_hip", "left_knee"], ["right_hip", "right_knee"]],
+  shin: [["left_knee", "left_ankle"], ["right_knee", "right_ankle"]],
+};
+
+const dist = (a: KP | null, b: KP | null) => a && b ? Math.hypot(a.x - b.x, a.y - b.y) : null;
+
+function torsoPx(kps: KP[]): number | null {
+  return dist(
+    mid(get(kps, "left_shoulder"), get(kps, "right_shoulder")),
+    mid(get(kps, "left_hip"), get(kps, "right_hip")),
+  );
+}
+
+/** Longest visible instance of a segment (left or right side). */
+function segmentPx(kps: KP[], seg: Segment): number | null {
+  const ds = SEGMENTS[seg].map(([a, b]) => dist(get(kps, a), get(kps, b))).filter((d): d is number => d !== null);
+  return ds.length ? Math.max(...ds) : null;
+}
+
+/**
+ * Pixels per torso length in this frame. Each visible segment gives an
+ * estimate via the profile; turning away from the camera only ever shortens
+ * a segment, so the largest estimate is the most trustworthy.
+ */
+export function bodyUnit(kps: KP[], profile: BodyProfile = DEFAULT_BODY): number | null {
+  const estimates = [torsoPx(kps)];
+  for (const seg of Object.keys(SEGMENTS) as Segment[]) {
+    const px = segmentPx(kps, seg);
+    estimates.push(px === null ? null : px / profile[seg]);
+  }
+  const known = estimates.filter((e): e is number => e !== null && e > 0);
+  return known.length ? Math.max(...known) : null;
+}
+
+/** What the scorers get alongside the keypoints each frame. */
+export function scoreContext(kps: KP[], profile: BodyProfile | null, now = performance.now()): ScoreContext {
+  return { unit: bodyUnit(kps, profile ?? DEFAULT_BODY) ?? FALLBACK_UNIT_PX, now };
+}
+
+/** Proportions from one frame of the calibration pose, or null if any segment is hidden. */
+export function measureProfile(kps: KP[]): Omit<BodyProfile, "measuredAt"> | null {
+  const torso = torsoPx(kps);
+  if (!torso) return null;
+  const out = {} as Omit<BodyProfile, "measuredAt">;
+  for (const seg of Object.keys(SEGMENTS) as Segment[]) {
+    const px = segmentPx(kps, seg);
+    if (px === null) return null;
+    out[seg] = px / torso;
+  }
+  return out;
+}
+
+const median = (vs: number[]) => [...vs].sort((a, b) => a - b)[Math.floor(vs.length / 2)];
+
+export type CalibrationState = { progress: number; prompt: string; profile: BodyProfile | null };
+
+/**
+ * Collects proportions while the user stands square-on to the camera with
+ * every joint in view, then takes the median of each segment.
+ */
+export function createCalibration({ holdMs = 2000 } = {}) {
+  let samples: Omit<BodyProfile, "measuredAt">[] = [];
+  let goodMs = 0;
+  let last: number | null = null;
+
+  function update(kps: KP[], now = performance.now()): CalibrationState {
+    const dt = last === null ? 0 : Math.min(100, now - last);
+    last = now;
+
+    const m = classifyView(kps) === "frontal" ? measureProfile(kps) : null;
+    if (!m) {
+      return { progress: goodMs / holdMs, profile: null, prompt: "Stand facing the camera, whole body in view, arms by your sides" };
+    }
+    samples.push(m);
+    goodMs += dt;
+    if (goodMs < holdMs) return { progress: goodMs / holdMs, profile: null, prompt: "Hold still…" };
+
+    const profile = { measuredAt: Date.now() } as BodyProfile;
+    for (const seg of Object.keys(SEGMENTS) as Segment[]) profile[seg] = median(samples.map(s => s[seg]));
+    return { progress: 1, profile, prompt: "Calibrated" };
+  }
+
+  function reset() {
+    samples = [];
+    goodMs = 0;
+    last = null;
+  }
+
+  return { update, reset };
+}
+
+export type Calibration = ReturnType<typeof createCalibration>;
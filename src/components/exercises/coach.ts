@@ -0,0 +1,117 @@
+import type { KP, ScoreResult, Side } from "./angles";
+import { scoreContext } from "./body";
+import type { BodyProfile } from "./body";
+import { createCueEngine } from "./cueEngine";
+import { createHoldTimer } from "./holdTimer";
+import type { HoldState, HoldTimer } from "./holdTimer";
+import { matchReference, withReference } from "./reference";
+import type { ReferenceMatch } from "./reference";
+import { createScorer } from "./registry";
+import type { ExerciseDef } from "./registry";
+import { createRepCounter } from "./repCounter";
+import type { RepUpdate } from "./repCounter";
+import { createViewGate } from "./view";
+import { jointVisibility } from "./visibility";
+
+/** Two-sided holds run one clock per side; everything else a single "all" clock. */
+export type HoldKey = Side | "all";
+
+export type CoachOptions = {
+  /** Count reps (rep-tracked moves only). */
+  reps?: boolean;
+  /** Seconds of good form to hold; no clock without it. */
+  holdSec?: number;
+  /** One clock per side, for sided moves done on both; a side's clock runs once the scorer names it. */
+  perSide?: boolean;
+};
+
+export type CoachFrame =
+  | {
+    /** Waiting for the user to face the way the scorer needs. */
+    scored: false;
+    prompt: string | null;
+  }
+  | {
+    scored: true;
+    result: ScoreResult;
+    /** Nearest point on the reference path, for the ghost; null without one. */
+    match: ReferenceMatch | null;
+    /** Debounced cues, most severe first, as shown on screen. */
+    cues: string[];
+    /** All required joints in view. */
+    visible: boolean;
+    missing: string[];
+    rep?: RepUpdate;
+    hold?: { key: HoldKey; state: HoldState };
+  };
+
+export type ScoredFrame = Extract<CoachFrame, { scored: true }>;
+
+/**
+ * One go at an exercise, frame by frame: view gate, reference pose, scorer,
+ * cue debouncing, rep counter and hold clock(s). PoseCoach runs it on live
+ * frames and replay on recorded ones, so both score the same way.
+ */
+export function createCoach(def: ExerciseDef, { reps = false, holdSec, perSide = false }: CoachOptions = {}) {
+  const gate = createViewGate();
+  const cueEngine = createCueEngine({ max: 2 });
+  let scorer = createScorer(def);
+  const counter = reps && def.tracking.kind === "reps" ? createRepCounter(def.tracking.reps) : null;
+  const timers = new Map<HoldKey, HoldTimer>();
+
+  function step(kps: KP[], body: BodyProfile | null, t: number): CoachFrame {
+    // Seated moves only show the upper body, so there's no view to check
+    if (!def.seated) {
+      const g = gate.update(kps, def.camera, t);
+      if (!g.open) {
+        pause();
+        return { scored: false, prompt: g.prompt };
+      }
+    }
+
+    const ctx = scoreContext(kps, body, t);
+    const match = def.reference ? matchReference(kps, def.reference, ctx.unit) : null;
+    const result = withReference(scorer(kps, ctx), match);
+    const cues = cueEngine.update(result.cues, t);
+    const { allVisible: visible, missing } = jointVisibility(kps, def.requiredKeypoints);
+    const rep = counter?.update(kps);
+
+    let hold: { key: HoldKey; state: HoldState } | undefined;
+    const key: HoldKey | undefined = perSide ? result.side : "all";
+    if (holdSec && key) {
+      let timer = timers.get(key);
+      if (!timer) timers.set(key, timer = createHoldTimer({ targetSec: holdSec }));
+      // Switching sides: the idle side's clock mustn't count this time when it picks up again
+      for (const [k, other] of timers) if (k !== key) other.pause();
+      hold = { key, state: timer.update(result.score, visible, t) };
+    }
+
+    return { scored: true, result, match, cues, visible, missing, rep, hold };
+  }
+
+  /** A frame that isn't scored (no body, calibrating) is a gap, not time held. */
+  function pause() {
+    timers.forEach(timer => timer.pause());
+  }
+
+  /** Seeking back in a clip: debounced cues no longer follow on. */
+  function rewind() {
+    cueEngine.reset();
+  }
+
+  /** A new camera or clip: view check, cues and scorer history start afresh; reps and hold time carry on. */
+  function restart() {
+    gate.reset();
+    cueEngine.reset();
+    scorer = createScorer(def);
+  }
+
+  /** Where each hold clock stands; empty until one has started. */
+  function holds(): Partial<Record<HoldKey, HoldState>> {
+    return Object.fromEntries([...timers].map(([k, timer]) => [k, timer.snapshot()]));
+  }
+
+  return { def, holdSec, step, pause, rewind, restart, holds };
+}
+
+export type Coach = ReturnType<typeof createCoach>;
@@ -0,0 +1,69 @@
+import { CUES } from "./cues";
+import type { CueDef, CueSeverity } from "./cues";
+
+const SEVERITY_RANK: Record<CueSeverity, number> = { safety: 0, form: 1, minor: 2 };
+
+// Safety cues surface fast and linger; minor ones need to be persistent to show at all.
+const TIMING: Record<CueSeverity, { persistMs: number; holdMs: number }> = {
+  safety: { persistMs: 150, holdMs: 2500 },
+  form: { persistMs: 400, holdMs: 2000 },
+  minor: { persistMs: 800, holdMs: 1500 },
+};
+
+type CueMeta = { id: string; text: string; spoken: string; severity: CueSeverity; persistMs: number; holdMs: number };
+
+const BY_TEXT = new Map<string, CueMeta>(
+  Object.entries(CUES).map(([id, def]: [string, CueDef]) =>
+    [def.text, { id, ...TIMING[def.severity], ...def }])
+);
+
+/** Catalog entry for a cue's text; unknown text is treated as a form cue. */
+export function cueMeta(text: string): CueMeta {
+  return BY_TEXT.get(text) ?? { id: text, text, spoken: text, severity: "form", ...TIMING.form };
+}
+
+type CueState = { meta: CueMeta; since: number | null; shownAt: number | null };
+
+/**
+ * Debounces the raw per-frame cue list: a cue shows once it has been true
+ * for its persistMs, stays up for at least holdMs, and the list is ordered
+ * most severe first.
+ */
+export function createCueEngine({ max = Infinity }: { max?: number } = {}) {
+  const states = new Map<string, CueState>();
+
+  function update(active: string[], now = performance.now()): string[] {
+    const on = new Set(active);
+    for (const text of on) {
+      const st = states.get(text);
+      if (!st) states.set(text, { meta: cueMeta(text), since: now, shownAt: null });
+      else if (st.since === null) st.since = now;
+    }
+
+    const visible: CueState[] = [];
+    for (const [text, st] of states) {
+      if (!on.has(text)) st.since = null;
+      // Once shown, a cue that is still (or again) true doesn't have to re-earn its place
+      const ready = st.since !== null && (st.shownAt !== null || now - st.since >= st.meta.persistMs);
+      const held = st.shownAt !== null && now - st.shownAt < st.meta.holdMs;
+      if (ready && st.shownAt === null) st.shownAt = now;
+      if (ready || held) visible.push(st);
+      else if (st.since === null) states.delete(text);
+      else st.shownAt = null;
+    }
+
+    return visible
+      .sort((a, b) => SEVERITY_RANK[a.meta.severity] - SEVERITY_RANK[b.meta.severity]
+        || (a.shownAt ?? now) - (b.shownAt ?? now))
+      .slice(0, max)
+      .map(st => st.meta.text);
+  }
+
+  function reset() {
+    states.clear();
+  }
+
+  return { update, reset };
+}
+
+export type CueEngine = ReturnType<typeof createCueEngine>;
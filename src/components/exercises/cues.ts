@@ -0,0 +1,79 @@
+/** safety: could hurt; form: main coaching point; minor: polish. */
+export type CueSeverity = "safety" | "form" | "minor";
+
+export type CueDef = {
+  text: string;
+  /** Two or three words for voice coaching; said across a room, mid-rep. */
+  spoken: string;
+  severity: CueSeverity;
+  /** How long the fault must persist before the cue shows (ms). */
+  persistMs?: number;
+  /** Minimum time the cue stays up once shown (ms). */
+  holdMs?: number;
+};
+
+/** Every cue a scorer can emit, keyed by id. Shared wording = shared id. */
+export const CUES = {
+  level_hips: { text: "Level your hips.", spoken: "Level your hips", severity: "minor" },
+  hips_level_stable: { text: "Keep hips level and stable.", spoken: "Hips level", severity: "form" },
+
+  hinge_knee_bend: { text: "Less knee bend — micro-bend only.", spoken: "Straighter knees", severity: "form" },
+  hinge_more: { text: "Push hips back; hinge more.", spoken: "Push your hips back", severity: "form" },
+  hinge_overfold: { text: "Don’t overfold; limit range.", spoken: "Not so deep", severity: "safety" },
+  hinge_knees_forward: { text: "Knees over your ankles — sit back, don’t squat.", spoken: "Sit back", severity: "form" },
+
+  plank_sag: { text: "Lift chest / tuck ribs — keep trunk long.", spoken: "Lift your hips", severity: "safety" },
+  plank_pike: { text: "Don’t pike — keep hips level.", spoken: "Lower your hips", severity: "form" },
+  plank_legs: { text: "Straighten legs — press heels back.", spoken: "Straight legs", severity: "minor" },
+
+  side_plank_hip_drop: { text: "Lift your hips — one straight line from head to heels.", spoken: "Hips up", severity: "safety" },
+  side_plank_hip_high: { text: "Lower your hips into line with your shoulders and feet.", spoken: "Hips down a little", severity: "form" },
+  side_plank_stack: { text: "Stack your shoulders — don’t roll forward or back.", spoken: "Stack your shoulders", severity: "form" },
+  side_plank_elbow: { text: "Elbow directly under your shoulder.", spoken: "Elbow under shoulder", severity: "minor" },
+
+  bridge_lift: { text: "Drive hips up — squeeze your glutes.", spoken: "Squeeze and lift", severity: "form" },
+  bridge_arch: { text: "Don’t arch — ribs down, lift with your glutes.", spoken: "Ribs down, don’t arch", severity: "safety" },
+  bridge_feet: { text: "Move your feet so your knees bend about 90°.", spoken: "Move your feet", severity: "minor" },
+
+  cat_cow_range: { text: "Move through more range — round up, then let your belly sink.", spoken: "Bigger movement", severity: "form" },
+  cat_cow_hands: { text: "Hands under shoulders.", spoken: "Hands under shoulders", severity: "minor" },
+  cat_cow_knees: { text: "Knees under hips.", spoken: "Knees under hips", severity: "minor" },
+
+  curl_up_low: { text: "Lift your head and shoulders just off the floor.", spoken: "Lift a little", severity: "form" },
+  curl_up_height: { text: "Lift only a little — this isn’t a sit-up.", spoken: "Lift less", severity: "safety" },
+  curl_up_neck: { text: "Tuck your chin — lift head and shoulders as one unit.", spoken: "Tuck your chin", severity: "form" },
+  curl_up_legs: { text: "Bend one knee, keep the other leg straight.", spoken: "One knee bent", severity: "minor" },
+
+  bird_dog_arm: { text: "Keep arm straight but not locked.", spoken: "Long arm", severity: "minor" },
+  bird_dog_leg: { text: "Extend leg fully, keep it in line with hip.", spoken: "Reach the leg long", severity: "form" },
+  bird_dog_spine: { text: "Maintain a neutral spine. Keep back flat.", spoken: "Flat back", severity: "safety" },
+
+  dead_bug_arm: { text: "Keep arm extended, parallel to ground.", spoken: "Reach the arm long", severity: "minor" },
+  dead_bug_leg: { text: "Extend leg fully, keep lower back pressed.", spoken: "Reach the leg long", severity: "form" },
+  dead_bug_spine: { text: "Maintain a neutral spine. Press lower back into ground.", spoken: "Back to the floor", severity: "safety" },
+
+  walk_spine: { text: "Maintain a neutral spine. Keep head aligned with shoulders.", spoken: "Head over shoulders", severity: "form" },
+  walk_hips: { text: "Keep hips level. Avoid tilting to one side while walking.", spoken: "Level hips", severity: "form" },
+  walk_knees: { text: "Align knees properly. Avoid inward or outward knee rotation.", spoken: "Knees over toes", severity: "minor" },
+  walk_stride: { text: "Maintain consistent stride length. Avoid overstriding or short steps.", spoken: "Even steps", severity: "minor" },
+  walk_lean: { text: "Stand tall — don’t lean forward from the hips.", spoken: "Stand tall", severity: "form" },
+  walk_sway: { text: "Keep your trunk steady — let your arms swing, not your torso.", spoken: "Steady trunk", severity: "form" },
+  walk_cadence: { text: "Take quicker, lighter steps.", spoken: "Quicker steps", severity: "minor" },
+
+  stand_head_forward: { text: "Bring your head back — ears over shoulders.", spoken: "Head back", severity: "form" },
+  stand_pelvis_anterior: { text: "Ease your tailbone down — don’t let your lower back arch.", spoken: "Tailbone down", severity: "form" },
+  stand_pelvis_posterior: { text: "Bring your hips back over your feet — don’t hang forward on them.", spoken: "Hips back over your feet", severity: "form" },
+  stand_shoulders_level: { text: "Let both shoulders relax to the same height.", spoken: "Relax your shoulders", severity: "minor" },
+  stand_hips_level: { text: "Stand evenly on both feet.", spoken: "Even weight", severity: "minor" },
+  stand_knees_in: { text: "Keep knees over your feet — don’t let them drift inwards.", spoken: "Knees over your feet", severity: "form" },
+  stand_knees_out: { text: "Keep knees over your feet — don’t let them bow outwards.", spoken: "Knees over your feet", severity: "minor" },
+
+  // Seated posture shifts all the time; only cue faults that last
+  desk_slouch: { text: "Sit tall — you’ve sunk into the chair.", spoken: "Sit tall", severity: "form", persistMs: 5000 },
+  desk_head_forward: { text: "Bring your head back over your shoulders.", spoken: "Head back", severity: "form", persistMs: 5000 },
+  desk_rounding: { text: "Open your shoulders — roll them back and down.", spoken: "Open your shoulders", severity: "form", persistMs: 5000 },
+  desk_shoulders_level: { text: "Level your shoulders — don’t lean on one elbow.", spoken: "Level your shoulders", severity: "minor", persistMs: 5000 },
+  desk_head_tilt: { text: "Keep your head level.", spoken: "Head level", severity: "minor", persistMs: 5000 },
+} satisfies Record<string, CueDef>;
+
+export type CueId = keyof typeof CUES;
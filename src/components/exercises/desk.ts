@@ -0,0 +1,181 @@
+import { get, mid } from "./angles";
+import type { KP } from "./angles";
+import { CUES } from "./cues";
+
+/**
+ * Upper-body proportions from a webcam in front of a seated user. The hips are
+ * usually hidden by the desk, so everything is in shoulder widths.
+ */
+export type DeskMetrics = {
+  /** Shoulder line to ear line height; shrinks as the head pokes forward and down. */
+  neck: number;
+  /** Shoulder width over ear-to-ear width; narrows as the shoulders round in. */
+  span: number;
+  /** Ear line height in px, for slouch relative to neutral. */
+  earY: number;
+  /** Shoulder width in px. */
+  shoulderPx: number;
+};
+
+/** How far each measure has moved from the user's neutral, as a fraction (0 = neutral). */
+export type DeskDeviation = { headForward: number; rounding: number; slouch: number };
+
+export type DeskState = {
+  status: "calibrating" | "good" | "poor" | "away";
+  /** 0–1 while the neutral posture is being recorded. */
+  calibration: number;
+  deviation: DeskDeviation | null;
+  cues: string[];
+  goodMs: number;
+  poorMs: number;
+  /** Continuous time in the chair since the last break. */
+  sittingMs: number;
+  breakEveryMs: number;
+  breakDue: boolean;
+  breaks: number;
+};
+
+/** Time logged but not yet saved; see session/store.ts addDeskTime. */
+export type DeskLogEntry = { goodMs: number; poorMs: number; breaks: number };
+
+/** Deviation from neutral beyond which a posture counts as poor. */
+export const DESK_LIMITS = {
+  /** Neck 15% shorter than neutral. */
+  headForward: 0.15,
+  /** Shoulders 8% narrower relative to the head. */
+  rounding: 0.08,
+  /** Ears a quarter of a shoulder width lower. */
+  slouch: 0.25,
+};
+
+/** Out of frame this long counts as having got up for a break. */
+const AWAY_BREAK_MS = 2 * 60 * 1000;
+/** Longer gaps mean the loop was paused (e.g. a background tab); don't count them. */
+const MAX_GAP_MS = 60 * 1000;
+const MIN = 60 * 1000;
+
+/**
+ * Minutes between standing breaks: the more hours a day at a desk, the more
+ * often to get up, within the usual 30–45 minute advice.
+ */
+export function breakInterval(deskHours: number): number {
+  if (deskHours >= 8) return 30 * MIN;
+  if (deskHours >= 4) return 40 * MIN;
+  return 45 * MIN;
+}
+
+export function deskMetrics(kps: KP[]): DeskMetrics | null {
+  const lS = get(kps, "left_shoulder"), rS = get(kps, "right_shoulder");
+  const lE = get(kps, "left_ear"), rE = get(kps, "right_ear");
+  const s = mid(lS, rS), e = mid(lE, rE);
+  if (!lS || !rS || !lE || !rE || !s || !e) return null;
+  const shoulderPx = Math.hypot(lS.x - rS.x, lS.y - rS.y);
+  const earPx = Math.hypot(lE.x - rE.x, lE.y - rE.y);
+  if (shoulderPx < 1 || earPx < 1) return null;
+  return { neck: (s.y - e.y) / shoulderPx, span: shoulderPx / earPx, earY: e.y, shoulderPx };
+}
+
+function deviationFrom(neutral: DeskMetrics, m: DeskMetrics): DeskDeviation {
+  return {
+    headForward: (neutral.neck - m.neck) / neutral.neck,
+    rounding: (neutral.span - m.span) / neutral.span,
+    slouch: (m.earY - neutral.earY) / neutral.shoulderPx,
+  };
+}
+
+const average = (ms: DeskMetrics[]): DeskMetrics => {
+  const avg = (k: keyof DeskMetrics) => ms.reduce((a, m) => a + m[k], 0) / ms.length;
+  return { neck: avg("neck"), span: avg("span"), earY: avg("earY"), shoulderPx: avg("shoulderPx") };
+};
+
+/**
+ * Long-running seated posture monitor. Records a neutral posture first, then
+ * judges head position, shoulder rounding and slouch against it, logs time in
+ * good vs poor posture, and flags when a standing break is due.
+ */
+export function createDeskMonitor({ neutralMs = 3000 } = {}) {
+  let neutral: DeskMetrics | null = null;
+  let samples: DeskMetrics[] = [];
+  let neutralSince: number | null = null;
+  let goodMs = 0, poorMs = 0, breaks = 0;
+  let pending: DeskLogEntry = { goodMs: 0, poorMs: 0, breaks: 0 };
+  let sittingSince: number | null = null;
+  let lastSeen: number | null = null;
+  let lastT: number | null = null;
+
+  function update(kps: KP[], now: number, breakEveryMs: number): DeskState {
+    const dt = lastT === null ? 0 : Math.min(now - lastT, MAX_GAP_MS);
+    lastT = now;
+    const m = deskMetrics(kps);
+    const base = { calibration: neutral ? 1 : 0, goodMs, poorMs, breakEveryMs, breaks };
+
+    if (!m) {
+      if (sittingSince !== null && lastSeen !== null && now - lastSeen >= AWAY_BREAK_MS) takeBreak();
+      const sittingMs = sittingSince === null ? 0 : now - sittingSince;
+      return { ...base, breaks, status: "away", deviation: null, cues: [], sittingMs, breakDue: false };
+    }
+    lastSeen = now;
+    sittingSince ??= now;
+    const sittingMs = now - sittingSince;
+    const breakDue = sittingMs >= breakEveryMs;
+
+    if (!neutral) {
+      neutralSince ??= now;
+      samples.push(m);
+      const calibration = Math.min(1, (now - neutralSince) / neutralMs);
+      if (calibration >= 1) {
+        neutral = average(samples);
+        samples = [];
+      }
+      return { ...base, status: "calibrating", calibration, deviation: null, cues: [], sittingMs, breakDue };
+    }
+
+    const deviation = deviationFrom(neutral, m);
+    const cues: string[] = [];
+    if (deviation.slouch > DESK_LIMITS.slouch) cues.push(CUES.desk_slouch.text);
+    if (deviation.headForward > DESK_LIMITS.headForward) cues.push(CUES.desk_head_forward.text);
+    if (deviation.rounding > DESK_LIMITS.rounding) cues.push(CUES.desk_rounding.text);
+    if (cues.length) { poorMs += dt; pending.poorMs += dt; }
+    else { goodMs += dt; pending.goodMs += dt; }
+
+    return {
+      ...base, goodMs, poorMs,
+      status: cues.length ? "poor" : "good",
+      deviation, cues, sittingMs, breakDue,
+    };
+  }
+
+  /** User stood up: restart the sitting clock. */
+  function takeBreak() {
+    sittingSince = null;
+    breaks++;
+    pending.breaks++;
+  }
+
+  /** Re-record neutral, e.g. after moving the chair or the laptop. */
+  function resetNeutral() {
+    neutral = null;
+    samples = [];
+    neutralSince = null;
+  }
+
+  /** Time logged since the last drain, for saving. */
+  function drain(): DeskLogEntry {
+    const out = pending;
+    pending = { goodMs: 0, poorMs: 0, breaks: 0 };
+    return out;
+  }
+
+  function reset() {
+    resetNeutral();
+    goodMs = 0; poorMs = 0; breaks = 0;
+    pending = { goodMs: 0, poorMs: 0, breaks: 0 };
+    sittingSince = null;
+    lastSeen = null;
+    lastT = null;
+  }
+
+  return { update, takeBreak, resetNeutral, drain, reset };
+}
+
+export type DeskMonitor = ReturnType<typeof createDeskMonitor>;
@@ -0,0 +1,23 @@
+import { angleOf, get } from "./angles";
+import type { KP, Side } from "./angles";
+
+export const opposite = (side: Side): Side => side === "left" ? "right" : "left";
+
+/**
+ * Opposite arm + leg reach: hip–shoulder–wrist and shoulder–hip–ankle both open
+ * from ~90° (limbs under/over the trunk) towards ~180° (in line with the trunk).
+ * The diagonal is named after the reaching arm; the weaker limb sets the value.
+ */
+export function diagonalReach(kps: KP[], side: Side): number | null {
+  const other = opposite(side);
+  const arm = angleOf(get(kps, `${side}_hip`), get(kps, `${side}_shoulder`), get(kps, `${side}_wrist`));
+  const leg = angleOf(get(kps, `${other}_shoulder`), get(kps, `${other}_hip`), get(kps, `${other}_ankle`));
+  return arm === null || leg === null ? null : Math.min(arm, leg);
+}
+
+/** The diagonal reaching furthest past `minReach`, or null while both are at rest. */
+export function activeDiagonal(kps: KP[], minReach: number): Side | null {
+  const l = diagonalReach(kps, "left") ?? -1, r = diagonalReach(kps, "right") ?? -1;
+  if (Math.max(l, r) < minReach) return null;
+  return l >= r ? "left" : "right";
+}
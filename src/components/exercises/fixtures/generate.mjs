@@ -0,0 +1,144 @@
+// Synthesises the side-on keypoint recordings in this folder. They're drawn from
+// joint angles plus a little jitter, not recorded from a person.
+//   node src/components/exercises/fixtures/generate.mjs src/components/exercises/fixtures
+import { writeFileSync, mkdirSync } from "node:fs";
+
+const NAMES = ["nose","left_eye","right_eye","left_ear","right_ear","left_shoulder","right_shoulder","left_elbow","right_elbow","left_wrist","right_wrist","left_hip","right_hip","left_knee","right_knee","left_ankle","right_ankle"];
+const U = 170, FPS = 15;
+const rad = d => d * Math.PI / 180;
+let seed = 1;
+const rnd = () => { seed = (seed * 16807) % 2147483647; return seed / 2147483647; };
+const jit = a => (rnd() * 2 - 1) * a;
+const round = (v, dp) => Math.round(v * 10 ** dp) / 10 ** dp;
+
+// Pose from joint points in px (side-less); left side nearer the camera
+function frame(p) {
+  const k = [];
+  for (const n of NAMES) {
+    const [side, j] = n.includes("_") ? n.split("_") : [null, n];
+    const base = p[j] ?? p[n];
+    const dx = side === "left" ? 2 : side === "right" ? -2 : 0;
+    const score = side === "right" ? 0.7 + rnd() * 0.15 : 0.85 + rnd() * 0.12;
+    k.push(round(base.x + dx + jit(1.5), 1), round(base.y + jit(1.5), 1), round(score, 3));
+  }
+  return k;
+}
+
+// Standing, facing +x: angles lean the shin forward, thigh back and trunk forward
+function standing({ shin, thigh, trunk }) {
+  const ankle = { x: 600, y: 660 };
+  const at = (o, len, deg, sx) => ({ x: o.x + sx * len * U * Math.sin(rad(deg)), y: o.y - len * U * Math.cos(rad(deg)) });
+  const knee = at(ankle, 0.8, shin, 1);
+  const hip = at(knee, 0.85, thigh, -1);
+  const shoulder = at(hip, 1, trunk, 1);
+  const ear = at(shoulder, 0.3, trunk + 10, 1);
+  const elbow = { x: shoulder.x, y: shoulder.y + 0.6 * U };
+  const wrist = { x: elbow.x, y: elbow.y + 0.5 * U };
+  const nose = { x: ear.x + 0.12 * U, y: ear.y + 0.02 * U };
+  return { ankle, knee, hip, shoulder, ear, elbow, wrist, nose, eye: { x: nose.x - 0.04 * U, y: nose.y - 0.05 * U } };
+}
+
+// Prone on the forearms, head at +x; sag drops the hips, bend lifts the knees' angle off straight
+function plank({ sag, kneeDrop }) {
+  const hip = { x: 640, y: 520 + sag * U };
+  const shoulder = { x: 640 + U, y: 520 };
+  const ear = { x: shoulder.x + 0.3 * U, y: 510 };
+  const elbow = { x: shoulder.x, y: shoulder.y + 0.55 * U };
+  const wrist = { x: elbow.x + 0.5 * U, y: elbow.y };
+  const knee = { x: 640 - 0.85 * U, y: 520 + kneeDrop * U };
+  const ankle = { x: 640 - 1.65 * U, y: 528 };
+  const nose = { x: ear.x + 0.12 * U, y: ear.y + 0.04 * U };
+  return { hip, shoulder, ear, elbow, wrist, knee, ankle, nose, eye: { x: nose.x - 0.04 * U, y: nose.y - 0.05 * U } };
+}
+
+// Head at +x with the hips at `hip`; `down` is +1 on all fours (limbs hang below the trunk)
+// and -1 on the back (limbs point up). `reach` swings each side's arm forward and the opposite
+// leg back, from square to the trunk (0°) towards in line with it (90°); `elbow` bends the reaching arm.
+function quadruped({ hip: h, down, reach, elbow = 0 }) {
+  const P = (x, y) => ({ x: h.x + x * U, y: h.y + y * U });
+  const p = { hip: P(0, 0), shoulder: P(1, 0) };
+  const ear = P(1.3, -0.1 * down);
+  p.ear = ear;
+  p.nose = { x: ear.x + 0.12 * U, y: ear.y + 0.04 * U * down };
+  p.eye = { x: p.nose.x - 0.04 * U, y: p.nose.y - 0.05 * U };
+  for (const side of ["left", "right"]) {
+    const other = side === "left" ? "right" : "left";
+    const a = rad(reach[side]);
+    // Arm: straight, or bent at the elbow by `elbow` degrees while it reaches
+    const bend = reach[side] > 0 ? rad(elbow) : 0;
+    p[`${side}_elbow`] = P(1 + 0.45 * Math.sin(a), 0.45 * Math.cos(a) * down);
+    p[`${side}_wrist`] = P(1 + 0.45 * Math.sin(a) + 0.45 * Math.sin(a - bend), (0.45 * Math.cos(a) + 0.45 * Math.cos(a - bend)) * down);
+    // Leg: thigh swings back from the hip, shin stays level behind the knee
+    const knee = P(-0.85 * Math.sin(a), 0.85 * Math.cos(a) * down);
+    p[`${other}_knee`] = knee;
+    p[`${other}_ankle`] = { x: knee.x - 0.8 * U, y: knee.y + 0.05 * U * down * Math.cos(a) };
+  }
+  return p;
+}
+
+// Reaches one diagonal at a time, alternating left and right; each rep is 1.2 s out,
+// 0.8 s held, 1.2 s back and 0.6 s at rest
+function diagonalReps(shape, maxDeg, sides) {
+  const frames = [];
+  const total = 1.5 + sides.length * 3.8 + 1;
+  for (let i = 0; i <= total * FPS; i++) {
+    const s = i / FPS;
+    const r = s - 1.5;
+    const reach = { left: 0, right: 0 };
+    if (r > 0 && r < sides.length * 3.8) {
+      const c = r % 3.8;
+      const f = c < 1.2 ? ease(c / 1.2) : c < 2 ? 1 : c < 3.2 ? ease(1 - (c - 2) / 1.2) : 0;
+      reach[sides[Math.floor(r / 3.8)]] = f * maxDeg;
+    }
+    frames.push({ t: Math.round(s * 1000), k: frame(quadruped({ ...shape, reach })) });
+  }
+  return frames;
+}
+
+const ease = t => (1 - Math.cos(Math.PI * t)) / 2;
+
+function hingeReps(bottom, reps) {
+  const frames = [];
+  const top = { shin: 0, thigh: 1, trunk: 2 };
+  const total = 1.5 + reps * 3 + 1;
+  for (let i = 0; i <= total * FPS; i++) {
+    const s = i / FPS;
+    const r = s - 1.5;
+    // Each rep: 1.2 s down, 0.6 s at the bottom, 1.2 s up
+    let f = 0;
+    if (r > 0 && r < reps * 3) {
+      const c = r % 3;
+      f = c < 1.2 ? ease(c / 1.2) : c < 1.8 ? 1 : ease(1 - (c - 1.8) / 1.2);
+    }
+    const pose = {};
+    for (const key of Object.keys(top)) pose[key] = top[key] + f * (bottom[key] - top[key]);
+    frames.push({ t: Math.round(s * 1000), k: frame(standing(pose)) });
+  }
+  return frames;
+}
+
+function plankHold(shape, sec) {
+  const frames = [];
+  for (let i = 0; i <= sec * FPS; i++) frames.push({ t: Math.round(i * 1000 / FPS), k: frame(plank(shape)) });
+  return frames;
+}
+
+const rec = (exercise, frames) => ({
+  format: "posher-keypoints", version: 1, exercise, width: 1280, height: 720,
+  recordedAt: "2026-10-19T09:00:00.000Z", names: NAMES, frames,
+});
+
+const out = process.argv[2];
+mkdirSync(out, { recursive: true });
+const write = (name, r) => writeFileSync(`${out}/${name}.json`, JSON.stringify(r) + "\n");
+seed = 11; write("hinge-good", rec("hinge", hingeReps({ shin: 0, thigh: 14, trunk: 50 }, 3)));
+seed = 12; write("hinge-knees-bent", rec("hinge", hingeReps({ shin: 30, thigh: 22, trunk: 45 }, 3)));
+seed = 13; write("plank-good", rec("plank", plankHold({ sag: 0, kneeDrop: 0 }, 12)));
+seed = 14; write("plank-sag", rec("plank", plankHold({ sag: 0.45, kneeDrop: 0.45 }, 12)));
+const ALTERNATE = ["left", "right", "left", "right"];
+const FOURS = { hip: { x: 560, y: 400 }, down: 1 };
+const BACK = { hip: { x: 560, y: 560 }, down: -1 };
+seed = 15; write("bird-dog-good", rec("bird-dog", diagonalReps(FOURS, 88, ALTERNATE)));
+seed = 16; write("bird-dog-bent-arm", rec("bird-dog", diagonalReps({ ...FOURS, elbow: 45 }, 88, ALTERNATE)));
+seed = 17; write("dead-bug-good", rec("dead-bug", diagonalReps(BACK, 84, ALTERNATE)));
+seed = 18; write("dead-bug-short", rec("dead-bug", diagonalReps(BACK, 40, ALTERNATE)));
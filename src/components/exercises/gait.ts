@@ -0,0 +1,150 @@
+import { get, mid } from "./angles";
+import type { KP, ScoreContext, Side } from "./angles";
+import { DEFAULT_BODY } from "./body";
+
+type Pt = { x: number; y: number };
+
+type GaitSample = {
+  t: number;
+  /** Torso length in px at this frame. */
+  unit: number;
+  /** +1 walking towards image right, -1 towards left. */
+  dir: number;
+  hip: Pt;
+  shoulder: Pt;
+  /** Heel where the model tracks it (BlazePose), else the ankle. */
+  foot: Record<Side, Pt | null>;
+  /** Pelvic drop in degrees, from the left/right hip height difference. */
+  drop: number | null;
+};
+
+export type HeelStrike = { t: number; foot: Side; stepLength: number };
+
+export type GaitMetrics = {
+  strikes: HeelStrike[];
+  /** Steps per minute. */
+  cadence: number | null;
+  /** Mean distance between the feet at heel strike, in torso lengths, by leading foot. */
+  stepLength: Record<Side, number> | null;
+  /** Left/right step length difference as a % of their mean. */
+  symmetry: number | null;
+  /** Forward trunk lean, degrees from vertical (mean over the window). */
+  trunkLean: number | null;
+  /** Peak-to-peak forward/back trunk movement, degrees. */
+  trunkSway: number | null;
+  /** Largest pelvic drop per stride, averaged over strides, degrees. */
+  pelvicDrop: number | null;
+};
+
+/** A foot has to be this far ahead of the hips (torso lengths) to count as a strike. */
+const MIN_REACH = 0.1;
+/** Half-width of the neighbourhood a strike must be the furthest reach within. */
+const PEAK_MS = 200;
+export const MIN_STRIKES = 4;
+
+const deg = (rad: number) => rad * 180 / Math.PI;
+const mean = (vs: number[]) => vs.reduce((a, v) => a + v, 0) / vs.length;
+function percentile(vs: number[], p: number) {
+  const s = [...vs].sort((a, b) => a - b);
+  return s[Math.min(s.length - 1, Math.floor(p * s.length))];
+}
+
+/** Facing direction from nose vs ears; falls back to which way the hips are moving. */
+function facing(kps: KP[], prev: GaitSample | undefined, hip: Pt): number {
+  const nose = get(kps, "nose"), ear = mid(get(kps, "left_ear"), get(kps, "right_ear"));
+  if (nose && ear && Math.abs(nose.x - ear.x) > 2) return Math.sign(nose.x - ear.x);
+  if (prev && Math.abs(hip.x - prev.hip.x) > 0.5) return Math.sign(hip.x - prev.hip.x);
+  return prev?.dir ?? 1;
+}
+
+/** Heel strike ≈ the moment a foot reaches furthest ahead of the hips. */
+function findStrikes(samples: GaitSample[]): HeelStrike[] {
+  const out: HeelStrike[] = [];
+  for (const foot of ["left", "right"] as const) {
+    const reach = samples.map(s => s.foot[foot] ? s.dir * (s.foot[foot].x - s.hip.x) / s.unit : null);
+    let lastT = -Infinity;
+    samples.forEach((s, i) => {
+      const r = reach[i];
+      if (r === null || r < MIN_REACH || s.t - lastT < PEAK_MS) return;
+      const isPeak = samples.every((o, j) => Math.abs(o.t - s.t) > PEAK_MS || (reach[j] ?? -Infinity) <= r);
+      // Needs a full neighbourhood either side, or the latest frame could be mid-swing
+      const settled = samples[samples.length - 1].t - s.t >= PEAK_MS && s.t - samples[0].t >= PEAK_MS;
+      const lead = s.foot[foot], other = s.foot[foot === "left" ? "right" : "left"];
+      if (!isPeak || !settled || !lead || !other) return;
+      out.push({ t: s.t, foot, stepLength: Math.abs(lead.x - other.x) / s.unit });
+      lastT = s.t;
+    });
+  }
+  return out.sort((a, b) => a.t - b.t);
+}
+
+/**
+ * Buffers a few seconds of side-on walking and turns it into gait metrics:
+ * heel strikes, cadence, step length symmetry, trunk sway and pelvic drop.
+ */
+export function createGaitAnalyzer({ windowMs = 6000 } = {}) {
+  let samples: GaitSample[] = [];
+
+  /** `hipWidth` is the user's hip width in torso lengths (from the body profile). */
+  function update(kps: KP[], { unit, now }: ScoreContext, hipWidth = DEFAULT_BODY.hipWidth): GaitMetrics {
+    const lH = get(kps, "left_hip"), rH = get(kps, "right_hip");
+    const hip = mid(lH, rH);
+    const shoulder = mid(get(kps, "left_shoulder"), get(kps, "right_shoulder"));
+    samples = samples.filter(s => now - s.t < windowMs);
+    if (hip && shoulder) {
+      samples.push({
+        t: now, unit, hip, shoulder,
+        dir: facing(kps, samples[samples.length - 1], hip),
+        foot: {
+          left: get(kps, "left_heel") ?? get(kps, "left_ankle"),
+          right: get(kps, "right_heel") ?? get(kps, "right_ankle"),
+        },
+        // Side-on the hips overlap, so the true hip width comes from the profile
+        drop: lH && rH ? deg(Math.atan2(Math.abs(lH.y - rH.y), hipWidth * unit)) : null,
+      });
+    }
+    return metrics();
+  }
+
+  function metrics(): GaitMetrics {
+    const strikes = findStrikes(samples);
+    const enough = strikes.length >= MIN_STRIKES;
+
+    const cadence = enough
+      ? (strikes.length - 1) / (strikes[strikes.length - 1].t - strikes[0].t) * 60000
+      : null;
+
+    const byFoot = (f: Side) => strikes.filter(s => s.foot === f).map(s => s.stepLength);
+    const l = byFoot("left"), r = byFoot("right");
+    const stepLength = enough && l.length && r.length ? { left: mean(l), right: mean(r) } : null;
+    const symmetry = stepLength
+      ? Math.abs(stepLength.left - stepLength.right) / ((stepLength.left + stepLength.right) / 2) * 100
+      : null;
+
+    // Lean is positive when the shoulders are ahead of the hips
+    const leans = samples.map(s => deg(Math.atan2(s.dir * (s.shoulder.x - s.hip.x), s.hip.y - s.shoulder.y)));
+    const trunkLean = leans.length ? mean(leans) : null;
+    const trunkSway = enough ? percentile(leans, 0.9) - percentile(leans, 0.1) : null;
+
+    // Strides run from one strike of a foot to its next
+    const strideDrops: number[] = [];
+    for (const foot of ["left", "right"] as const) {
+      const ts = strikes.filter(s => s.foot === foot).map(s => s.t);
+      for (let i = 1; i < ts.length; i++) {
+        const ds = samples.filter(s => s.t >= ts[i - 1] && s.t < ts[i] && s.drop !== null).map(s => s.drop as number);
+        if (ds.length) strideDrops.push(Math.max(...ds));
+      }
+    }
+    const pelvicDrop = strideDrops.length ? mean(strideDrops) : null;
+
+    return { strikes, cadence, stepLength, symmetry, trunkLean, trunkSway, pelvicDrop };
+  }
+
+  function reset() {
+    samples = [];
+  }
+
+  return { update, reset };
+}
+
+export type GaitAnalyzer = ReturnType<typeof createGaitAnalyzer>;
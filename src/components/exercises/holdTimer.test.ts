@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import type { Side } from "./angles";
+import { createHoldTimer } from "./holdTimer";
+import type { HoldTimer } from "./holdTimer";
+
+describe("createHoldTimer", () => {
+  it("counts good-form time between frames", () => {
+    const hold = createHoldTimer({ targetSec: 10 });
+    let state = hold.update(90, true, 0);
+    for (let t = 100; t <= 3000; t += 100) state = hold.update(90, true, t);
+    expect(state).toMatchObject({ goodSec: 3, totalSec: 3, holding: true, done: false });
+  });
+
+  it("doesn't credit the frames skipped while paused", () => {
+    const hold = createHoldTimer({ targetSec: 10 });
+    for (let t = 0; t <= 2000; t += 100) hold.update(90, true, t);
+    // A view check or calibration holds back 2–3.9 s; each of those frames pauses the clock
+    for (let t = 2100; t < 4000; t += 100) hold.pause();
+    let state = hold.update(90, true, 4000);
+    expect(state.goodSec).toBe(2);
+    for (let t = 4100; t <= 5000; t += 100) state = hold.update(90, true, t);
+    expect(state).toMatchObject({ goodSec: 3, totalSec: 3 });
+  });
+
+  it("keeps per-side clocks apart when the working side alternates", () => {
+    const timers: Record<Side, HoldTimer> = {
+      left: createHoldTimer({ targetSec: 30 }),
+      right: createHoldTimer({ targetSec: 30 }),
+    };
+    // One second on each side in turn, 10 s in all
+    for (let t = 0; t < 10_000; t += 100) {
+      const side: Side = Math.floor(t / 1000) % 2 ? "right" : "left";
+      timers[side === "left" ? "right" : "left"].pause();
+      timers[side].update(90, true, t);
+    }
+    const left = timers.left.snapshot(), right = timers.right.snapshot();
+    expect(left.totalSec + right.totalSec).toBeLessThanOrEqual(10);
+    expect(left.goodSec).toBe(4);
+    expect(right.goodSec).toBe(4);
+  });
+
+  it("stops at the target", () => {
+    const hold = createHoldTimer({ targetSec: 2 });
+    let state = hold.update(90, true, 0);
+    for (let t = 100; t <= 5000; t += 100) state = hold.update(90, true, t);
+    expect(state).toMatchObject({ goodSec: 2, holding: false, done: true });
+  });
+});
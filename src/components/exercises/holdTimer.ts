@@ -0,0 +1,72 @@
+export type HoldState = {
+  /** Seconds held with good form and all required joints in view. */
+  goodSec: number;
+  /** Seconds since the hold started, good form or not. */
+  totalSec: number;
+  /** True while the current frame counts towards goodSec. */
+  holding: boolean;
+  /** True once goodSec reaches the target; the clock stops there. */
+  done: boolean;
+};
+
+/** Form score a frame needs to count towards the hold, unless the caller sets its own. */
+export const HOLD_MIN_SCORE = 70;
+
+export type HoldOptions = {
+  targetSec: number;
+  /** Form score needed for a frame to count. */
+  minScore?: number;
+  /** Longer frame gaps (tab hidden, model stall) are clamped to this. */
+  maxGapMs?: number;
+};
+
+/**
+ * Form-gated hold clock. Feed it every scored frame, and pause it when frames
+ * stop coming; it only accrues good-form time while the score clears the
+ * threshold and the body is visible.
+ */
+export function createHoldTimer({ targetSec, minScore = HOLD_MIN_SCORE, maxGapMs = 500 }: HoldOptions) {
+  let lastAt: number | null = null;
+  let goodMs = 0, totalMs = 0;
+  let holding = false, done = false;
+
+  const snapshot = (): HoldState => ({
+    goodSec: Math.floor(goodMs / 1000),
+    totalSec: Math.floor(totalMs / 1000),
+    holding, done,
+  });
+
+  function update(score: number, visible: boolean, now = performance.now()): HoldState {
+    if (done) return snapshot();
+    const dt = lastAt === null ? 0 : Math.min(maxGapMs, Math.max(0, now - lastAt));
+    lastAt = now;
+
+    holding = visible && score >= minScore;
+    totalMs += dt;
+    if (holding) goodMs += dt;
+    if (goodMs >= targetSec * 1000) {
+      goodMs = targetSec * 1000;
+      holding = false;
+      done = true;
+    }
+    return snapshot();
+  }
+
+  /**
+   * Frames stopped arriving here (view check, calibration, another side's clock):
+   * the next update starts a new gap instead of crediting the time in between.
+   */
+  function pause() {
+    lastAt = null;
+  }
+
+  function reset() {
+    lastAt = null;
+    goodMs = totalMs = 0;
+    holding = done = false;
+  }
+
+  return { update, snapshot, pause, reset };
+}
+
+export type HoldTimer = ReturnType<typeof createHoldTimer>;
@@ -0,0 +1,164 @@
+import { angleOf, get } from "./angles";
+import type { KP, Side } from "./angles";
+import type { PoseMarker } from "./registry";
+import { REFERENCE_TOLERANCE } from "./reference";
+import type { ReferenceMatch, RefJoint } from "./reference";
+
+export type RangeStatus = "good" | "near" | "off";
+
+/** Degrees outside the optimal range that still count as close. */
+const NEAR_MARGIN = 10;
+
+export const STATUS_COLORS: Record<RangeStatus, string> = {
+  good: "#4CAF50",
+  near: "#FFC107",
+  off: "#F44336",
+};
+
+const BONES: [string, string][] = [
+  ["left_ear", "left_eye"], ["left_eye", "nose"], ["nose", "right_eye"], ["right_eye", "right_ear"],
+  ["left_shoulder", "right_shoulder"], ["left_hip", "right_hip"],
+  ["left_shoulder", "left_hip"], ["right_shoulder", "right_hip"],
+  ["left_shoulder", "left_elbow"], ["left_elbow", "left_wrist"],
+  ["right_shoulder", "right_elbow"], ["right_elbow", "right_wrist"],
+  ["left_hip", "left_knee"], ["left_knee", "left_ankle"],
+  ["right_hip", "right_knee"], ["right_knee", "right_ankle"],
+  // Feet, from models that track them
+  ["left_ankle", "left_heel"], ["left_heel", "left_foot_index"], ["left_ankle", "left_foot_index"],
+  ["right_ankle", "right_heel"], ["right_heel", "right_foot_index"], ["right_ankle", "right_foot_index"],
+];
+
+export function rangeStatus(value: number, { min, max }: PoseMarker["optimalRange"]): RangeStatus {
+  if (value >= min && value <= max) return "good";
+  return value >= min - NEAR_MARGIN && value <= max + NEAR_MARGIN ? "near" : "off";
+}
+
+export type MarkerReading = {
+  marker: PoseMarker;
+  /** The three joints the angle was taken at (middle one is the vertex). */
+  joints: [string, string, string];
+  angle: number;
+  status: RangeStatus;
+};
+
+/**
+ * Reads a marker's angle on whichever side the camera sees best, or null if
+ * it has no joints or they aren't in view.
+ */
+export function readMarker(kps: KP[], marker: PoseMarker): MarkerReading | null {
+  const js = marker.joints;
+  if (!js) return null;
+  const names = (side: Side): [string, string, string] => [`${side}_${js[0]}`, `${side}_${js[1]}`, `${side}_${js[2]}`];
+  const confidence = (side: Side) => names(side).reduce((a, n) => a + (get(kps, n)?.score ?? 0), 0);
+  const joints = names(confidence("left") >= confidence("right") ? "left" : "right");
+  const angle = angleOf(get(kps, joints[0]), get(kps, joints[1]), get(kps, joints[2]));
+  return angle === null ? null : { marker, joints, angle, status: rangeStatus(angle, marker.optimalRange) };
+}
+
+const WORST: RangeStatus[] = ["off", "near", "good"];
+
+export type OverlayOptions = {
+  /** Video pixels to canvas pixels. */
+  scaleX: number;
+  scaleY: number;
+  markers?: PoseMarker[];
+  /** Colour for joints and bones no marker covers. */
+  color?: string;
+};
+
+/**
+ * Draws the skeleton and, for each marker, colours the two bones meeting at
+ * its joint green/amber/red against the optimal range and labels the angle.
+ */
+export function drawOverlay(ctx: CanvasRenderingContext2D, kps: KP[], { scaleX, scaleY, markers = [], color = "#00FF88" }: OverlayOptions) {
+  const at = (name: string) => {
+    const k = get(kps, name);
+    return k && { x: k.x * scaleX, y: k.y * scaleY };
+  };
+  const readings = markers.map(m => readMarker(kps, m)).filter((r): r is MarkerReading => r !== null);
+
+  // A bone shared by two markers shows the worse of the two
+  const boneStatus = (a: string, b: string) => {
+    const covering = readings.filter(r => {
+      const [j0, v, j2] = r.joints;
+      return (a === v && (b === j0 || b === j2)) || (b === v && (a === j0 || a === j2));
+    });
+    return WORST.find(s => covering.some(r => r.status === s)) ?? null;
+  };
+
+  ctx.lineCap = "round";
+  for (const [a, b] of BONES) {
+    const p = at(a), q = at(b);
+    if (!p || !q) continue;
+    const status = boneStatus(a, b);
+    ctx.strokeStyle = status ? STATUS_COLORS[status] : color;
+    ctx.lineWidth = status ? 5 : 3;
+    ctx.beginPath();
+    ctx.moveTo(p.x, p.y);
+    ctx.lineTo(q.x, q.y);
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = color;
+  for (const k of kps) {
+    const p = k.name ? at(k.name) : null;
+    if (!p) continue;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, 5, 0, 2 * Math.PI);
+    ctx.fill();
+  }
+
+  ctx.font = "bold 15px system-ui, -apple-system, Segoe UI, Roboto, sans-serif";
+  for (const r of readings) {
+    const p = at(r.joints[1]);
+    if (!p) continue;
+    const text = `${r.marker.name} ${r.angle.toFixed(0)}°`;
+    const w = ctx.measureText(text).width;
+    const x = p.x + 12, y = p.y - 10;
+    ctx.fillStyle = "rgba(0,0,0,.65)";
+    ctx.fillRect(x - 4, y - 15, w + 14, 21);
+    // Swatch in the marker's own colour, as used wherever the marker is listed
+    ctx.fillStyle = r.marker.color;
+    ctx.fillRect(x - 4, y - 15, 4, 21);
+    ctx.fillStyle = STATUS_COLORS[r.status];
+    ctx.fillText(text, x + 4, y);
+  }
+}
+
+const GHOST_BONES: [RefJoint | "hip", RefJoint | "hip"][] = [
+  ["ear", "shoulder"], ["shoulder", "elbow"], ["elbow", "wrist"],
+  ["shoulder", "hip"], ["hip", "knee"], ["knee", "ankle"],
+];
+
+/**
+ * Translucent target pose anchored at the user's hips. Joints the user is
+ * furthest from get a ring so it's clear what to move.
+ */
+export function drawGhost(ctx: CanvasRenderingContext2D, match: ReferenceMatch, { scaleX, scaleY }: Pick<OverlayOptions, "scaleX" | "scaleY">) {
+  const at = (j: RefJoint | "hip") => {
+    const p = match.ghost[j];
+    return p && { x: p.x * scaleX, y: p.y * scaleY };
+  };
+
+  ctx.lineCap = "round";
+  ctx.strokeStyle = "rgba(255,255,255,.35)";
+  ctx.lineWidth = 12;
+  for (const [a, b] of GHOST_BONES) {
+    const p = at(a), q = at(b);
+    if (!p || !q) continue;
+    ctx.beginPath();
+    ctx.moveTo(p.x, p.y);
+    ctx.lineTo(q.x, q.y);
+    ctx.stroke();
+  }
+
+  ctx.strokeStyle = STATUS_COLORS.off;
+  ctx.lineWidth = 3;
+  for (const [j, d] of Object.entries(match.deviation) as [RefJoint, number][]) {
+    const p = at(j);
+    if (!p || d <= REFERENCE_TOLERANCE) continue;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, 10, 0, 2 * Math.PI);
+    ctx.stroke();
+  }
+}
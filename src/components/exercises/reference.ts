@@ -0,0 +1,158 @@
+import { get, mid } from "./angles";
+import type { KP, ScoreResult, Side } from "./angles";
+
+/** Side-less joints a reference pose can place; each is matched to the user's left or right. */
+export type RefJoint = "ear" | "shoulder" | "elbow" | "wrist" | "knee" | "ankle";
+
+type Pt = { x: number; y: number };
+
+/**
+ * One key position of a move, in torso lengths from the mid-hip with +x
+ * towards the head end and +y down. Every phase of a move places the same joints.
+ */
+export type ReferencePhase = {
+  name: string;
+  /** Target position drawn as the ghost; moves with several (cat–cow) show the nearest. */
+  goal?: boolean;
+  joints: Partial<Record<RefJoint, Pt>>;
+};
+
+export type ReferenceMatch = {
+  /** Nearest point on the path through the phases, e.g. "top → bottom" at t. */
+  from: string;
+  to: string;
+  t: number;
+  /** Distance from the fitted reference, in torso lengths, per joint seen. */
+  deviation: Partial<Record<RefJoint, number>>;
+  worst: number;
+  /** Goal phase placed on the user (video pixels), hip included. */
+  ghost: Partial<Record<RefJoint | "hip", Pt>>;
+};
+
+// Standing hinge: top, then hips back with the trunk ~50° forward and shins near vertical
+export const HINGE_REFERENCE: ReferencePhase[] = [
+  { name: "top", joints: { ear: { x: 0.05, y: -1.3 }, shoulder: { x: 0, y: -1 }, knee: { x: 0.02, y: 0.85 }, ankle: { x: 0, y: 1.65 } } },
+  { name: "bottom", goal: true, joints: { ear: { x: 1, y: -0.84 }, shoulder: { x: 0.77, y: -0.64 }, knee: { x: 0.2, y: 0.83 }, ankle: { x: 0.2, y: 1.63 } } },
+];
+
+export const PLANK_REFERENCE: ReferencePhase[] = [
+  { name: "hold", goal: true, joints: { ear: { x: 1.3, y: -0.05 }, shoulder: { x: 1, y: 0 }, elbow: { x: 1, y: 0.55 }, knee: { x: -0.85, y: 0 }, ankle: { x: -1.65, y: 0.05 } } },
+];
+
+// Seen from the front: one straight line rising ~20° from the feet, elbow under the shoulder
+export const SIDE_PLANK_REFERENCE: ReferencePhase[] = [
+  { name: "hold", goal: true, joints: { shoulder: { x: 0.94, y: -0.34 }, elbow: { x: 0.94, y: 0.26 }, knee: { x: -0.8, y: 0.29 }, ankle: { x: -1.55, y: 0.56 } } },
+];
+
+export const GLUTE_BRIDGE_REFERENCE: ReferencePhase[] = [
+  { name: "down", joints: { shoulder: { x: 1, y: 0 }, knee: { x: -0.6, y: -0.6 }, ankle: { x: -0.95, y: 0.05 } } },
+  { name: "top", goal: true, joints: { shoulder: { x: 0.93, y: 0.37 }, knee: { x: -0.79, y: -0.31 }, ankle: { x: -0.9, y: 0.42 } } },
+];
+
+// All fours, then one arm and the opposite leg reaching long
+export const BIRD_DOG_REFERENCE: ReferencePhase[] = [
+  { name: "all fours", joints: { shoulder: { x: 1, y: 0 }, elbow: { x: 1, y: 0.45 }, wrist: { x: 1, y: 0.9 }, knee: { x: 0, y: 0.85 }, ankle: { x: -0.8, y: 0.9 } } },
+  { name: "reach", goal: true, joints: { shoulder: { x: 1, y: 0 }, elbow: { x: 1.6, y: 0 }, wrist: { x: 2.1, y: 0 }, knee: { x: -0.85, y: 0 }, ankle: { x: -1.65, y: 0 } } },
+];
+
+// On the back: arms to the ceiling and legs in tabletop, then one arm and the opposite leg lowered long
+export const DEAD_BUG_REFERENCE: ReferencePhase[] = [
+  { name: "tabletop", joints: { shoulder: { x: 1, y: 0 }, elbow: { x: 1, y: -0.6 }, wrist: { x: 1, y: -1.1 }, knee: { x: 0, y: -0.85 }, ankle: { x: -0.8, y: -0.85 } } },
+  { name: "extend", goal: true, joints: { shoulder: { x: 1, y: 0 }, elbow: { x: 1.6, y: -0.05 }, wrist: { x: 2.1, y: -0.1 }, knee: { x: -0.85, y: -0.1 }, ankle: { x: -1.65, y: -0.15 } } },
+];
+
+export const CAT_COW_REFERENCE: ReferencePhase[] = [
+  { name: "cat", goal: true, joints: { ear: { x: 1.15, y: 0.3 }, shoulder: { x: 1, y: 0 }, wrist: { x: 1, y: 0.9 }, knee: { x: 0, y: 0.85 } } },
+  { name: "cow", goal: true, joints: { ear: { x: 1.3, y: -0.25 }, shoulder: { x: 1, y: 0 }, wrist: { x: 1, y: 0.9 }, knee: { x: 0, y: 0.85 } } },
+];
+
+export const CURL_UP_REFERENCE: ReferencePhase[] = [
+  { name: "down", joints: { ear: { x: 1.3, y: 0 }, shoulder: { x: 1, y: 0 } } },
+  { name: "lifted", goal: true, joints: { ear: { x: 1.27, y: -0.25 }, shoulder: { x: 0.98, y: -0.15 } } },
+];
+
+/** Off the reference by more than this (torso lengths) starts to cost points. */
+export const REFERENCE_TOLERANCE = 0.3;
+const MAX_PENALTY = 15;
+const MIN_JOINTS = 3;
+
+const dist = (a: Pt, b: Pt) => Math.hypot(a.x - b.x, a.y - b.y);
+const lerp = (a: Pt, b: Pt, t: number): Pt => ({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+
+/** Path segments through consecutive phases; a single phase is a segment of its own. */
+function segments(phases: ReferencePhase[]): [ReferencePhase, ReferencePhase][] {
+  return phases.length === 1 ? [[phases[0], phases[0]]] : phases.slice(1).map((p, i) => [phases[i], p]);
+}
+
+/**
+ * Fits the user's pose to the nearest point on the path through the phases.
+ * The reference is anchored at the hips, scaled by `unit` (torso length in
+ * px) and mirrored whichever way fits better, so it holds facing either way.
+ */
+export function matchReference(kps: KP[], phases: ReferencePhase[], unit: number): ReferenceMatch | null {
+  const hip = mid(get(kps, "left_hip"), get(kps, "right_hip"));
+  if (!hip || !phases.length) return null;
+  const joints = Object.keys(phases[0].joints) as RefJoint[];
+  const goals = phases.filter(p => p.goal);
+
+  let best: (Omit<ReferenceMatch, "ghost"> & { err: number; dir: number }) | null = null;
+  for (const dir of [1, -1]) {
+    // Each joint comes from whichever side sits nearer a goal position, so a
+    // reaching limb is matched rather than the one still on the floor
+    const user: Partial<Record<RefJoint, Pt>> = {};
+    for (const j of joints) {
+      const sides = (["left", "right"] as Side[])
+        .map(s => get(kps, `${s}_${j}`))
+        .filter((k): k is KP => k !== null)
+        .map(k => ({ x: dir * (k.x - hip.x) / unit, y: (k.y - hip.y) / unit }));
+      const near = (p: Pt) => Math.min(...goals.map(g => g.joints[j] ? dist(p, g.joints[j]) : Infinity));
+      if (sides.length) user[j] = sides.reduce((a, p) => near(p) < near(a) ? p : a);
+    }
+    const seen = joints.filter(j => user[j]);
+    if (seen.length < MIN_JOINTS) continue;
+
+    for (const [a, b] of segments(phases)) {
+      // Closed-form least-squares t along a → b, clamped to the segment
+      let num = 0, den = 0;
+      for (const j of seen) {
+        const p = a.joints[j]!, q = b.joints[j]!, u = user[j]!;
+        num += (u.x - p.x) * (q.x - p.x) + (u.y - p.y) * (q.y - p.y);
+        den += (q.x - p.x) ** 2 + (q.y - p.y) ** 2;
+      }
+      const t = den > 0 ? Math.min(1, Math.max(0, num / den)) : 0;
+      const deviation: Partial<Record<RefJoint, number>> = {};
+      let err = 0;
+      for (const j of seen) {
+        deviation[j] = dist(user[j]!, lerp(a.joints[j]!, b.joints[j]!, t));
+        err += deviation[j]! ** 2;
+      }
+      if (!best || err < best.err) {
+        best = { from: a.name, to: b.name, t, deviation, worst: Math.max(...Object.values(deviation)), err, dir };
+      }
+    }
+  }
+  const fit = best;
+  if (!fit) return null;
+
+  // Ghost: the goal nearest the fitted pose, placed back on the user
+  const at = (p: Pt): Pt => ({ x: hip.x + fit.dir * p.x * unit, y: hip.y + p.y * unit });
+  const fitted = segments(phases).find(([a, b]) => a.name === fit.from && b.name === fit.to)!;
+  const pose = (j: RefJoint) => lerp(fitted[0].joints[j]!, fitted[1].joints[j]!, fit.t);
+  const gap = (g: ReferencePhase) => joints.reduce((s, j) => s + dist(g.joints[j]!, pose(j)), 0);
+  const goal = goals.length ? goals.reduce((a, g) => gap(g) < gap(a) ? g : a) : phases[phases.length - 1];
+  const ghost: ReferenceMatch["ghost"] = { hip: { x: hip.x, y: hip.y } };
+  for (const j of joints) ghost[j] = at(goal.joints[j]!);
+
+  return { from: fit.from, to: fit.to, t: fit.t, deviation: fit.deviation, worst: fit.worst, ghost };
+}
+
+/** Points off for the joint furthest from the reference, beyond the tolerance. */
+export function referencePenalty(match: ReferenceMatch | null): number {
+  if (!match || match.worst <= REFERENCE_TOLERANCE) return 0;
+  return Math.min(MAX_PENALTY, Math.round((match.worst - REFERENCE_TOLERANCE) * 50));
+}
+
+/** Applies the reference penalty to a scored frame (frames scoring 0 stay 0). */
+export function withReference(result: ScoreResult, match: ReferenceMatch | null): ScoreResult {
+  return result.score > 0 ? { ...result, score: Math.max(0, result.score - referencePenalty(match)) } : result;
+}
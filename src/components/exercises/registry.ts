@@ -0,0 +1,296 @@
+import type { KP, ScoreContext, ScoreResult } from "./angles";
+import { scoreHipHinge } from "./scoreHipHinge";
+import { scorePlank } from "./scorePlank";
+import { scoreSidePlank } from "./scoreSidePlank";
+import { scoreGluteBridge } from "./scoreGluteBridge";
+import { createCatCowScorer } from "./scoreCatCow";
+import { scoreCurlUp } from "./scoreCurlUp";
+import { scoreBirdDog } from "./scoreBirdDog";
+import { scoreDeadBug } from "./scoreDeadBug";
+import { scoreWalkingPosture } from "./scoreWalkingPosture";
+import { scoreDeskPosture } from "./scoreDeskPosture";
+import { scoreStandingPosture } from "./scoreStandingPosture";
+import { BIRD_DOG_REPS, DEAD_BUG_REPS, GLUTE_BRIDGE_REPS, HINGE_REPS } from "./repCounter";
+import type { RepDefinition } from "./repCounter";
+import type { BodyView } from "./view";
+import {
+  BIRD_DOG_REFERENCE, CAT_COW_REFERENCE, CURL_UP_REFERENCE, DEAD_BUG_REFERENCE,
+  GLUTE_BRIDGE_REFERENCE, HINGE_REFERENCE, PLANK_REFERENCE, SIDE_PLANK_REFERENCE,
+} from "./reference";
+import type { ReferencePhase } from "./reference";
+
+export type ExerciseId =
+  | "hinge" | "plank" | "side-plank" | "glute-bridge" | "bird-dog" | "dead-bug" | "cat-cow" | "curl-up"
+  | "walking" | "standing" | "desk";
+
+/** Which way the user should face the camera for the scorer's angles to hold. */
+export type CameraView = Exclude<BodyView, "oblique">;
+
+/** How progress through the move is measured. */
+export type Tracking =
+  | { kind: "reps"; reps: RepDefinition }
+  | { kind: "hold" }
+  | { kind: "continuous" };
+
+export type PoseMarker = {
+  name: string;
+  optimalRange: { min: number; max: number };
+  color: string;
+  /**
+   * Side-less joint names; the angle is taken at the middle one on whichever
+   * side the camera sees best. Markers without joints aren't drawn.
+   */
+  joints?: [string, string, string];
+};
+
+export type Scorer = (kps: KP[], ctx: ScoreContext) => ScoreResult;
+
+/**
+ * Most scorers judge each frame on its own. Ones that judge over time
+ * (cat–cow's range) keep history, so they come as a factory and each
+ * session makes its own (see `createScorer` below).
+ */
+type Scoring =
+  | { score: Scorer; createScorer?: never }
+  | { score?: never; createScorer: () => Scorer };
+
+export type ExerciseDef = Scoring & {
+  id: ExerciseId;
+  name: string;
+  category: "exercise" | "posture";
+  requiredKeypoints: string[];
+  /** Joints the scorer also uses when the model tracks them (BlazePose's feet); it works without. */
+  extraKeypoints?: string[];
+  camera: CameraView;
+  instructions: string[];
+  safety: string[];
+  tracking: Tracking;
+  /** Lower-case fragments that identify this move in a plan item name. */
+  aliases: string[];
+  markers: PoseMarker[];
+  /** Key positions drawn as a ghost skeleton; distance from them costs points. */
+  reference?: ReferencePhase[];
+  /** Scorer reports which side is working, so a step can require both sides. */
+  sided?: boolean;
+  /**
+   * Done sitting at a desk with only the upper body in view: skips the
+   * full-body calibration and view check, and runs at a low frame rate.
+   */
+  seated?: boolean;
+};
+
+const TRUNK_AND_LEGS = [
+  "left_shoulder", "right_shoulder",
+  "left_hip", "right_hip",
+  "left_knee", "right_knee",
+  "left_ankle", "right_ankle"
+];
+const FEET = ["left_heel", "right_heel", "left_foot_index", "right_foot_index"];
+const WITH_ARMS = [...TRUNK_AND_LEGS, "left_elbow", "right_elbow", "left_wrist", "right_wrist"];
+
+export const EXERCISES: Record<ExerciseId, ExerciseDef> = {
+  "hinge": {
+    id: "hinge",
+    name: "Hip Hinge",
+    category: "exercise",
+    score: scoreHipHinge,
+    requiredKeypoints: TRUNK_AND_LEGS,
+    extraKeypoints: FEET,
+    camera: "sagittal",
+    instructions: ["Keep shins vertical, hinge at hips, spine long."],
+    safety: ["Only go as deep as you can keep your back flat."],
+    tracking: { kind: "reps", reps: HINGE_REPS },
+    reference: HINGE_REFERENCE,
+    aliases: ["hinge"],
+    markers: [
+      { name: "Trunk Angle", optimalRange: { min: 110, max: 160 }, color: "#4CAF50", joints: ["shoulder", "hip", "knee"] },
+      { name: "Knee Angle", optimalRange: { min: 155, max: 175 }, color: "#2196F3", joints: ["hip", "knee", "ankle"] }
+    ]
+  },
+  "plank": {
+    id: "plank",
+    name: "Plank",
+    category: "exercise",
+    score: scorePlank,
+    requiredKeypoints: TRUNK_AND_LEGS,
+    camera: "sagittal",
+    instructions: ["Ribs down, hips level, press floor away."],
+    safety: ["Drop to your knees if your low back sags or aches."],
+    tracking: { kind: "hold" },
+    reference: PLANK_REFERENCE,
+    aliases: ["plank"],
+    markers: [
+      { name: "Trunk Alignment", optimalRange: { min: 165, max: 185 }, color: "#FF9800", joints: ["shoulder", "hip", "ankle"] },
+      { name: "Hip Level", optimalRange: { min: -10, max: 10 }, color: "#9C27B0" }
+    ]
+  },
+  "side-plank": {
+    id: "side-plank",
+    name: "Side Plank",
+    category: "exercise",
+    score: scoreSidePlank,
+    requiredKeypoints: [...TRUNK_AND_LEGS, "left_elbow", "right_elbow"],
+    camera: "frontal",
+    instructions: ["Face the camera, elbow under shoulder, lift hips into one line.", "Stack shoulders and hips; don’t roll forward."],
+    safety: ["Bend your knees and rest on them if the full version strains your back."],
+    tracking: { kind: "hold" },
+    reference: SIDE_PLANK_REFERENCE,
+    aliases: ["side plank"],
+    sided: true,
+    markers: [
+      { name: "Body Line", optimalRange: { min: 165, max: 185 }, color: "#FF9800", joints: ["shoulder", "hip", "ankle"] },
+      { name: "Shoulder Stack", optimalRange: { min: 0, max: 30 }, color: "#795548" }
+    ]
+  },
+  "glute-bridge": {
+    id: "glute-bridge",
+    name: "Glute Bridge",
+    category: "exercise",
+    score: scoreGluteBridge,
+    requiredKeypoints: TRUNK_AND_LEGS,
+    camera: "sagittal",
+    instructions: ["On your back, knees bent, feet flat.", "Squeeze glutes and lift hips until shoulders, hips and knees line up."],
+    safety: ["Stop short of the top if you feel it in your low back rather than your glutes."],
+    tracking: { kind: "reps", reps: GLUTE_BRIDGE_REPS },
+    reference: GLUTE_BRIDGE_REFERENCE,
+    aliases: ["bridge"],
+    markers: [
+      { name: "Hip Extension", optimalRange: { min: 160, max: 180 }, color: "#E91E63", joints: ["shoulder", "hip", "knee"] },
+      { name: "Knee Angle", optimalRange: { min: 70, max: 110 }, color: "#2196F3", joints: ["hip", "knee", "ankle"] }
+    ]
+  },
+  "bird-dog": {
+    id: "bird-dog",
+    name: "Bird Dog",
+    category: "exercise",
+    score: scoreBirdDog,
+    requiredKeypoints: WITH_ARMS,
+    camera: "sagittal",
+    instructions: ["On hands and knees, reach the opposite arm and leg long.", "Keep hips square; don’t let the back arch."],
+    safety: ["Keep the range small if reaching hurts your back."],
+    tracking: { kind: "reps", reps: BIRD_DOG_REPS },
+    reference: BIRD_DOG_REFERENCE,
+    aliases: ["bird-dog", "bird dog", "birddog"],
+    sided: true,
+    markers: [
+      { name: "Arm Extension", optimalRange: { min: 160, max: 180 }, color: "#673AB7", joints: ["shoulder", "elbow", "wrist"] },
+      { name: "Leg Extension", optimalRange: { min: 170, max: 190 }, color: "#FF5722", joints: ["hip", "knee", "ankle"] }
+    ]
+  },
+  "dead-bug": {
+    id: "dead-bug",
+    name: "Dead Bug",
+    category: "exercise",
+    score: scoreDeadBug,
+    requiredKeypoints: WITH_ARMS,
+    camera: "sagittal",
+    instructions: ["On your back, lower the opposite arm and leg slowly.", "Keep your lower back gently pressed into the floor."],
+    safety: ["Bend the moving knee more if your back lifts off the floor."],
+    tracking: { kind: "reps", reps: DEAD_BUG_REPS },
+    reference: DEAD_BUG_REFERENCE,
+    aliases: ["dead bug", "dead-bug", "deadbug"],
+    sided: true,
+    markers: [
+      { name: "Arm Position", optimalRange: { min: 160, max: 190 }, color: "#3F51B5", joints: ["shoulder", "elbow", "wrist"] },
+      { name: "Leg Angle", optimalRange: { min: 160, max: 190 }, color: "#009688", joints: ["hip", "knee", "ankle"] }
+    ]
+  },
+  "cat-cow": {
+    id: "cat-cow",
+    name: "Cat–Cow",
+    category: "exercise",
+    createScorer: createCatCowScorer,
+    requiredKeypoints: ["left_ear", "right_ear", ...WITH_ARMS],
+    camera: "sagittal",
+    instructions: ["On hands and knees, slowly round your back up, then let your belly sink.", "Move with your breath through a comfortable range."],
+    safety: ["Keep the range small if either end of the movement is painful."],
+    tracking: { kind: "continuous" },
+    reference: CAT_COW_REFERENCE,
+    aliases: ["cat–cow", "cat-cow", "cat cow"],
+    markers: [
+      { name: "Spinal Range", optimalRange: { min: 25, max: 90 }, color: "#00BCD4" }
+    ]
+  },
+  "curl-up": {
+    id: "curl-up",
+    name: "McGill Curl-Up",
+    category: "exercise",
+    score: scoreCurlUp,
+    requiredKeypoints: ["left_ear", "right_ear", ...TRUNK_AND_LEGS],
+    camera: "sagittal",
+    instructions: ["On your back, one knee bent, hands under your low back.", "Lift head and shoulders just off the floor and hold."],
+    safety: ["Keep your low back still; don’t flatten it into your hands."],
+    tracking: { kind: "hold" },
+    reference: CURL_UP_REFERENCE,
+    aliases: ["curl-up", "curl up", "curlup"],
+    markers: [
+      { name: "Trunk Lift", optimalRange: { min: 4, max: 30 }, color: "#8BC34A" },
+      { name: "Neck Angle", optimalRange: { min: 150, max: 180 }, color: "#607D8B", joints: ["ear", "shoulder", "hip"] }
+    ]
+  },
+  "walking": {
+    id: "walking",
+    name: "Walking Posture",
+    category: "posture",
+    score: scoreWalkingPosture,
+    requiredKeypoints: ["left_ear", "right_ear", ...TRUNK_AND_LEGS],
+    extraKeypoints: ["left_heel", "right_heel"],
+    camera: "sagittal",
+    instructions: ["Walk across the frame at an easy pace."],
+    safety: ["Stop if walking brings on leg pain or tingling."],
+    tracking: { kind: "continuous" },
+    aliases: ["walking"],
+    markers: []
+  },
+  "standing": {
+    id: "standing",
+    name: "Standing Posture",
+    category: "posture",
+    // Live score from the front; the side snapshot is scored when it's taken
+    score: kps => scoreStandingPosture(kps, null),
+    requiredKeypoints: ["nose", "left_ear", "right_ear", ...TRUNK_AND_LEGS],
+    camera: "frontal",
+    instructions: ["Stand relaxed, feet hip-width apart, arms by your sides.", "Hold still for a front photo, then turn sideways for a side photo."],
+    safety: [],
+    tracking: { kind: "continuous" },
+    aliases: ["standing posture"],
+    markers: []
+  },
+  "desk": {
+    id: "desk",
+    name: "Desk Posture",
+    category: "posture",
+    score: scoreDeskPosture,
+    requiredKeypoints: ["left_ear", "right_ear", "left_shoulder", "right_shoulder"],
+    camera: "frontal",
+    instructions: ["Sit at your desk facing the camera, head and shoulders in view.", "Sit tall in your usual working position while neutral is recorded."],
+    safety: ["Get up and move if sitting brings on leg pain or tingling."],
+    tracking: { kind: "continuous" },
+    aliases: ["desk posture", "sitting posture"],
+    seated: true,
+    markers: []
+  }
+};
+
+export const EXERCISE_LIST: ExerciseDef[] = Object.values(EXERCISES);
+
+/**
+ * A scorer for one session of this exercise. Make a new one when the
+ * exercise, camera or clip changes, so history from one doesn't leak into another.
+ */
+export function createScorer(def: ExerciseDef): Scorer {
+  return def.createScorer ? def.createScorer() : def.score;
+}
+
+/**
+ * Matches a plan item name (e.g. "Side Plank (each)") to a tracked exercise.
+ * The longest matching alias wins, so "side plank" beats "plank".
+ */
+export function findExercise(name: string): ExerciseDef | null {
+  const n = name.toLowerCase();
+  let best: ExerciseDef | null = null, len = 0;
+  for (const e of EXERCISE_LIST) {
+    for (const a of e.aliases) if (n.includes(a) && a.length > len) { best = e; len = a.length; }
+  }
+  return best;
+}
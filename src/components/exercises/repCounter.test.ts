@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { BIRD_DOG_REPS, createRepCounter, DEAD_BUG_REPS, GLUTE_BRIDGE_REPS, HINGE_REPS } from "./repCounter";
+import type { RepDefinition, RepSignal, RepUpdate } from "./repCounter";
+
+/** Runs a counter over angle readings, skipping the keypoints: each entry is one frame's signals. */
+function feed(def: RepDefinition, frames: (RepSignal[] | null)[]): RepUpdate[] {
+  let current: RepSignal[] | null = null;
+  const counter = createRepCounter({ ...def, measure: () => current });
+  return frames.map(f => {
+    current = f;
+    return counter.update([]);
+  });
+}
+
+const single = (...values: number[]) => values.map(value => [{ value }]);
+/** One diagonal reaching through `values` while the other rests at 90°. */
+const diagonal = (side: "left" | "right", ...values: number[]) =>
+  values.map(value => [{ value, side }, { value: 90, side: side === "left" ? "right" as const : "left" as const }]);
+
+describe("createRepCounter", () => {
+  it("counts a full hinge rep through every phase", () => {
+    const out = feed(HINGE_REPS, single(175, 160, 140, 125, 122, 140, 160, 170));
+    expect(out.map(u => u.phase)).toEqual(["start", "descent", "descent", "bottom", "bottom", "return", "return", "start"]);
+    expect(out.filter(u => u.completed)).toHaveLength(1);
+    expect(out.at(-1)!.reps).toEqual({ total: 1, left: 0, right: 0 });
+    expect(out.at(-1)!.transition).toEqual({ from: "return", to: "start" });
+  });
+
+  it("doesn't count a partial rep that turns back before the bottom", () => {
+    const out = feed(HINGE_REPS, single(175, 155, 140, 135, 150, 165, 172));
+    expect(out.map(u => u.phase)).not.toContain("bottom");
+    expect(out.at(-1)).toMatchObject({ phase: "start", reps: { total: 0 } });
+  });
+
+  it("ignores noise within the hysteresis band", () => {
+    // Hovering just under the start line, then just off the bottom
+    const out = feed(HINGE_REPS, single(175, 164, 167, 163, 168, 150, 130, 133, 132, 134));
+    expect(out.slice(1, 5).every(u => u.phase === "descent")).toBe(true);
+    expect(out.slice(6).every(u => u.phase === "bottom")).toBe(true);
+    expect(out.at(-1)!.reps.total).toBe(0);
+  });
+
+  it("returns to start from descent once past the hysteresis", () => {
+    const out = feed(HINGE_REPS, single(175, 160, 171));
+    expect(out.at(-1)).toMatchObject({ phase: "start", transition: { from: "descent", to: "start" } });
+  });
+
+  it("dips back to the bottom without counting twice", () => {
+    const out = feed(HINGE_REPS, single(175, 140, 128, 140, 129, 150, 170));
+    expect(out.map(u => u.phase)).toEqual(["start", "descent", "bottom", "return", "bottom", "return", "start"]);
+    expect(out.at(-1)!.reps.total).toBe(1);
+  });
+
+  it("counts moves that open rather than close (glute bridge)", () => {
+    const out = feed(GLUTE_BRIDGE_REPS, single(120, 150, 160, 168, 158, 140));
+    expect(out.at(-1)).toMatchObject({ phase: "start", completed: true, reps: { total: 1 } });
+  });
+
+  it("holds on to the last reading while the joints are out of view", () => {
+    const out = feed(HINGE_REPS, [[{ value: 175 }], [{ value: 140 }], null, null, [{ value: 125 }]]);
+    expect(out.map(u => u.phase)).toEqual(["start", "descent", "descent", "descent", "bottom"]);
+  });
+
+  it("counts bird-dog reps per side", () => {
+    const rep = [100, 130, 160, 160, 140, 110];
+    const out = feed(BIRD_DOG_REPS, [...diagonal("left", ...rep), ...diagonal("right", ...rep), ...diagonal("left", ...rep)]);
+    expect(out.at(-1)!.reps).toEqual({ total: 3, left: 2, right: 1 });
+    expect(out.filter(u => u.completed).map(u => u.side)).toEqual(["left", "right", "left"]);
+  });
+
+  it("follows the side a dead-bug rep started on until it's back at the start", () => {
+    // The right diagonal stirs mid-rep; the left one is still the one being counted
+    const out = feed(DEAD_BUG_REPS, [
+      ...diagonal("left", 100, 130, 155),
+      [{ value: 155, side: "left" }, { value: 125, side: "right" }],
+      ...diagonal("left", 135, 115),
+    ]);
+    expect(out.every(u => u.phase === "start" || u.side === "left")).toBe(true);
+    expect(out.at(-1)!.reps).toEqual({ total: 1, left: 1, right: 0 });
+  });
+
+  it("doesn't count a dead-bug reach that stops short of the bottom", () => {
+    const out = feed(DEAD_BUG_REPS, diagonal("right", 100, 130, 145, 148, 130, 110));
+    expect(out.at(-1)!.reps).toEqual({ total: 0, left: 0, right: 0 });
+  });
+
+  it("starts over on reset", () => {
+    let current: RepSignal[] = [];
+    const counter = createRepCounter({ ...HINGE_REPS, measure: () => current });
+    for (const value of [175, 140, 125, 150, 170]) {
+      current = [{ value }];
+      counter.update([]);
+    }
+    counter.reset();
+    current = [{ value: 175 }];
+    expect(counter.update([])).toMatchObject({ phase: "start", reps: { total: 0 } });
+  });
+});
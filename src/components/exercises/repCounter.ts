@@ -0,0 +1,131 @@
+import { angleOf, get, mid } from "./angles";
+import type { KP, Side } from "./angles";
+import { diagonalReach } from "./diagonal";
+
+export type RepPhase = "start" | "descent" | "bottom" | "return";
+export type RepSide = Side;
+
+/** One reading of the tracked angle. Bilateral moves report one per side. */
+export type RepSignal = { value: number; side?: RepSide };
+
+export type RepDefinition = {
+  /** Reads the tracked angle(s) from a frame; null when the joints aren't visible. */
+  measure: (kps: KP[]) => RepSignal[] | null;
+  /** Angle at (or beyond) which the body is back in the start position. */
+  startAt: number;
+  /** Angle that counts as reaching the end of the range. */
+  bottomAt: number;
+  /** Degrees of slack around each threshold so noise doesn't flip phases. */
+  hysteresis?: number;
+};
+
+export type RepCount = { total: number; left: number; right: number };
+
+export type RepUpdate = {
+  phase: RepPhase;
+  side?: RepSide;
+  reps: RepCount;
+  /** Set on the frame the phase changed. */
+  transition?: { from: RepPhase; to: RepPhase };
+  /** True on the frame a rep was completed. */
+  completed: boolean;
+};
+
+// Trunk angle (shoulder–hip–knee): ~180° with the hips fully open, closes as they fold.
+function measureTrunk(kps: KP[]): RepSignal[] | null {
+  const trunk = angleOf(
+    mid(get(kps, "left_shoulder"), get(kps, "right_shoulder")),
+    mid(get(kps, "left_hip"), get(kps, "right_hip")),
+    mid(get(kps, "left_knee"), get(kps, "right_knee")),
+  );
+  return trunk === null ? null : [{ value: trunk }];
+}
+
+function measureDiagonal(kps: KP[]): RepSignal[] | null {
+  const out: RepSignal[] = [];
+  for (const side of ["left", "right"] as const) {
+    const value = diagonalReach(kps, side);
+    if (value !== null) out.push({ value, side });
+  }
+  return out.length ? out : null;
+}
+
+export const HINGE_REPS: RepDefinition = { measure: measureTrunk, startAt: 165, bottomAt: 130 };
+// Bridge runs the other way: hips start folded on the floor and open up to the top
+export const GLUTE_BRIDGE_REPS: RepDefinition = { measure: measureTrunk, startAt: 145, bottomAt: 165 };
+export const BIRD_DOG_REPS: RepDefinition = { measure: measureDiagonal, startAt: 120, bottomAt: 155 };
+export const DEAD_BUG_REPS: RepDefinition = { measure: measureDiagonal, startAt: 120, bottomAt: 150 };
+
+/**
+ * Phase state machine over a single angle:
+ * start → descent → bottom → return → start (rep counted).
+ * Falling back to start before reaching the bottom is a partial and isn't counted.
+ */
+export function createRepCounter(def: RepDefinition) {
+  const hyst = def.hysteresis ?? 5;
+  const dir = Math.sign(def.bottomAt - def.startAt) || 1;
+  const range = Math.abs(def.bottomAt - def.startAt);
+  // Distance travelled from the start threshold towards the bottom.
+  const depth = (v: number) => dir * (v - def.startAt);
+
+  let phase: RepPhase = "start";
+  let side: RepSide | undefined;
+  let reps: RepCount = { total: 0, left: 0, right: 0 };
+
+  const snapshot = (extra?: Partial<RepUpdate>): RepUpdate =>
+    ({ phase, side, reps, completed: false, ...extra });
+
+  function update(kps: KP[]): RepUpdate {
+    const signals = def.measure(kps);
+    if (!signals) return snapshot();
+
+    const signal = phase === "start"
+      ? signals.reduce((a, b) => depth(b.value) > depth(a.value) ? b : a)
+      : signals.find(s => s.side === side) ?? signals[0];
+    if (phase !== "start" && signal.side !== side) return snapshot();
+
+    const d = depth(signal.value);
+    const from = phase;
+    let completed = false;
+
+    switch (phase) {
+      case "start":
+        if (d > 0) { phase = "descent"; side = signal.side; }
+        break;
+      case "descent":
+        if (d >= range) phase = "bottom";
+        else if (d < -hyst) phase = "start";
+        break;
+      case "bottom":
+        if (d < range - hyst) phase = "return";
+        break;
+      case "return":
+        if (d >= range) phase = "bottom";
+        else if (d <= 0) {
+          phase = "start";
+          completed = true;
+          reps = {
+            total: reps.total + 1,
+            left: reps.left + (side === "left" ? 1 : 0),
+            right: reps.right + (side === "right" ? 1 : 0),
+          };
+        }
+        break;
+    }
+
+    const transition = phase !== from ? { from, to: phase } : undefined;
+    const out = snapshot({ transition, completed, side });
+    if (phase === "start") side = undefined;
+    return out;
+  }
+
+  function reset() {
+    phase = "start";
+    side = undefined;
+    reps = { total: 0, left: 0, right: 0 };
+  }
+
+  return { update, reset };
+}
+
+export type RepCounter = ReturnType<typeof createRepCounter>;
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { parseRecording } from "../camera/recording";
+import { CUES } from "./cues";
+import { replayRecording } from "./replay";
+import hingeGood from "./fixtures/hinge-good.json?raw";
+import hingeKneesBent from "./fixtures/hinge-knees-bent.json?raw";
+import plankGood from "./fixtures/plank-good.json?raw";
+import plankSag from "./fixtures/plank-sag.json?raw";
+import birdDogGood from "./fixtures/bird-dog-good.json?raw";
+import birdDogBentArm from "./fixtures/bird-dog-bent-arm.json?raw";
+import deadBugGood from "./fixtures/dead-bug-good.json?raw";
+import deadBugShort from "./fixtures/dead-bug-short.json?raw";
+
+// Fixtures are synthetic side-on MoveNet keypoints at 15 fps (see fixtures/generate.mjs);
+// each opens with about a second of standing still (or holding) while the view gate settles.
+// Bird-dog and dead-bug clips reach left, right, left, right.
+const replay = (json: string, holdSec?: number) => replayRecording(parseRecording(json), { holdSec });
+
+describe("replayRecording: hip hinge", () => {
+  it("counts three good reps without knee cues", () => {
+    const r = replay(hingeGood);
+    expect(r.exercise).toBe("hinge");
+    expect(r.reps).toEqual({ total: 3, left: 0, right: 0 });
+    expect(r.cues).not.toContain(CUES.hinge_knee_bend.text);
+    expect(r.cues).not.toContain(CUES.hinge_overfold.text);
+    expect(r.scoreAvg).toBeGreaterThan(90);
+  });
+
+  it("flags bent knees but still counts the reps", () => {
+    const r = replay(hingeKneesBent);
+    expect(r.reps).toEqual({ total: 3, left: 0, right: 0 });
+    expect(r.cues).toContain(CUES.hinge_knee_bend.text);
+    expect(r.scoreAvg).toBeLessThan(replay(hingeGood).scoreAvg!);
+    expect(r.scoreMin).toBeLessThanOrEqual(85);
+  });
+
+  it("holds scoring back until the user has been side-on for a moment", () => {
+    const r = replay(hingeGood);
+    const firstScored = r.frames.findIndex(f => f.scored);
+    expect(firstScored).toBeGreaterThan(0);
+    expect(r.frames[firstScored].t).toBeGreaterThanOrEqual(800);
+    expect(r.frames.slice(firstScored).every(f => f.scored)).toBe(true);
+  });
+
+  it("gives the same result every run", () => {
+    expect(replay(hingeKneesBent)).toEqual(replay(hingeKneesBent));
+  });
+});
+
+describe("replayRecording: plank", () => {
+  it("completes a 10 s hold with a straight body", () => {
+    const r = replay(plankGood, 10);
+    expect(r.reps).toBeNull();
+    expect(r.cues).toEqual([]);
+    expect(r.scoreAvg).toBe(100);
+    expect(r.hold).toMatchObject({ goodSec: 10, done: true });
+  });
+
+  it("cues sagging hips and bent legs and keeps the hold clock stopped", () => {
+    const r = replay(plankSag, 10);
+    expect(r.cues).toEqual([CUES.plank_sag.text, CUES.plank_legs.text]);
+    expect(r.scoreAvg).toBeLessThan(70);
+    expect(r.hold).toMatchObject({ goodSec: 0, done: false });
+    expect(r.hold!.totalSec).toBeGreaterThanOrEqual(10);
+  });
+});
+
+describe("replayRecording: bird dog", () => {
+  it("counts two reps on each side", () => {
+    const r = replay(birdDogGood);
+    expect(r.reps).toEqual({ total: 4, left: 2, right: 2 });
+    expect(r.frames.filter(f => f.phase === "bottom").map(f => f.side)).toContain("right");
+    expect(r.cues).not.toContain(CUES.bird_dog_arm.text);
+    expect(r.scoreAvg).toBeGreaterThan(90);
+  });
+
+  it("flags a bent reaching arm", () => {
+    const r = replay(birdDogBentArm);
+    expect(r.reps).toEqual({ total: 4, left: 2, right: 2 });
+    expect(r.cues).toContain(CUES.bird_dog_arm.text);
+    expect(r.scoreMin).toBeLessThan(replay(birdDogGood).scoreMin!);
+  });
+});
+
+describe("replayRecording: dead bug", () => {
+  it("counts two reps on each side", () => {
+    const r = replay(deadBugGood);
+    expect(r.reps).toEqual({ total: 4, left: 2, right: 2 });
+    expect(r.cues).not.toContain(CUES.dead_bug_arm.text);
+    expect(r.cues).not.toContain(CUES.dead_bug_leg.text);
+    expect(r.scoreAvg).toBeGreaterThan(90);
+  });
+
+  it("doesn't count reaches that stop short, and cues the leg", () => {
+    const r = replay(deadBugShort);
+    expect(r.reps).toEqual({ total: 0, left: 0, right: 0 });
+    expect(r.cues).toContain(CUES.dead_bug_leg.text);
+  });
+});
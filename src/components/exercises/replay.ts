@@ -0,0 +1,95 @@
+import type { Side } from "./angles";
+import type { BodyProfile } from "./body";
+import { createCoach } from "./coach";
+import type { HoldState } from "./holdTimer";
+import { EXERCISES } from "./registry";
+import type { ExerciseId } from "./registry";
+import type { RepCount, RepPhase } from "./repCounter";
+import { createKeypointFilter } from "./smoothing";
+import { decodeFrame } from "../camera/recording";
+import type { KeypointRecording } from "../camera/recording";
+
+export type ReplayFrame = {
+  t: number;
+  /** False until the user faced the way the scorer needs; such frames aren't scored. */
+  scored: boolean;
+  score: number;
+  /** Debounced cues, as shown on screen. */
+  cues: string[];
+  unknown: string[];
+  visible: boolean;
+  side?: Side;
+  phase?: RepPhase;
+};
+
+export type ReplayResult = {
+  exercise: ExerciseId;
+  frames: ReplayFrame[];
+  /** Over scored frames with all required joints in view; null if there were none. */
+  scoreAvg: number | null;
+  scoreMin: number | null;
+  /** Every cue shown at some point, in the order they first appeared. */
+  cues: string[];
+  reps: RepCount | null;
+  hold: HoldState | null;
+};
+
+export type ReplayOptions = {
+  /** Defaults to the exercise the recording was made for. */
+  exercise?: ExerciseId;
+  /** Proportions to judge distances by; defaults to the average body. */
+  body?: BodyProfile | null;
+  /** Target for hold exercises. */
+  holdSec?: number;
+};
+
+/**
+ * Runs a keypoint recording through the session pipeline — smoothing, then
+ * the same coach PoseCoach uses (view gate, reference pose, scorer, cue
+ * debouncing, rep counter and hold clock) — on the recording's own
+ * timestamps. No camera or model involved, so the same recording always
+ * gives the same result.
+ */
+export function replayRecording(rec: KeypointRecording, { exercise = rec.exercise, body = null, holdSec = 30 }: ReplayOptions = {}): ReplayResult {
+  const def = EXERCISES[exercise];
+  const filter = createKeypointFilter();
+  const coach = createCoach(def, { reps: true, holdSec: def.tracking.kind === "hold" ? holdSec : undefined });
+
+  const frames: ReplayFrame[] = [];
+  const cues: string[] = [];
+  let sum = 0, n = 0, min: number | null = null;
+  let reps: RepCount | null = def.tracking.kind === "reps" ? { total: 0, left: 0, right: 0 } : null;
+  let holdState: HoldState | null = null;
+
+  for (const f of rec.frames) {
+    const step = coach.step(filter.filter(decodeFrame(rec, f), f.t), body, f.t);
+    if (!step.scored) {
+      frames.push({ t: f.t, scored: false, score: 0, cues: [], unknown: [], visible: false });
+      continue;
+    }
+
+    const { result, visible, rep, hold } = step;
+    if (rep) reps = rep.reps;
+    if (hold) holdState = hold.state;
+    for (const c of step.cues) if (!cues.includes(c)) cues.push(c);
+    if (visible) {
+      sum += result.score;
+      n++;
+      min = min === null ? result.score : Math.min(min, result.score);
+    }
+    frames.push({
+      t: f.t, scored: true, score: result.score, cues: step.cues, unknown: result.unknown ?? [],
+      visible, side: result.side, phase: rep?.phase,
+    });
+  }
+
+  return {
+    exercise,
+    frames,
+    scoreAvg: n ? sum / n : null,
+    scoreMin: min,
+    cues,
+    reps,
+    hold: holdState,
+  };
+}
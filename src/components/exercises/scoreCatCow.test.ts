@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { KP } from "./angles";
+import { CUES } from "./cues";
+import { createCatCowScorer } from "./scoreCatCow";
+
+// On all fours, side-on, holding still: no spinal range at all
+const STILL: KP[] = Object.entries({
+  ear: [620, 290], shoulder: [570, 300], wrist: [570, 450], hip: [400, 300], knee: [400, 445],
+}).flatMap(([j, [x, y]]) => [
+  { name: `left_${j}`, x, y, score: 0.9 },
+  { name: `right_${j}`, x: x + 2, y, score: 0.9 },
+]);
+
+const ctx = (now: number) => ({ unit: 170, now });
+const rangeCue = CUES.cat_cow_range.text;
+
+/** Scores the still pose every 100 ms from `from` to `to`; returns the last result. */
+function hold(score: ReturnType<typeof createCatCowScorer>, from: number, to: number) {
+  let last = score(STILL, ctx(from));
+  for (let t = from + 100; t <= to; t += 100) last = score(STILL, ctx(t));
+  return last;
+}
+
+describe("createCatCowScorer", () => {
+  it("cues more range once most of a cycle has been seen", () => {
+    const score = createCatCowScorer();
+    expect(hold(score, 0, 3000).cues).not.toContain(rangeCue);
+    expect(hold(score, 3100, 4500).cues).toContain(rangeCue);
+  });
+
+  it("keeps history per scorer", () => {
+    const a = createCatCowScorer();
+    hold(a, 0, 4500);
+    // Same clock, but a fresh session hasn't seen a cycle yet
+    expect(createCatCowScorer()(STILL, ctx(4600)).cues).not.toContain(rangeCue);
+  });
+
+  it("starts over when time goes backwards", () => {
+    const score = createCatCowScorer();
+    expect(hold(score, 10_000, 15_000).cues).toContain(rangeCue);
+    // A clip seeked back to the start
+    expect(hold(score, 0, 3000).cues).not.toContain(rangeCue);
+  });
+});
@@ -0,0 +1,67 @@
+import { angleOf, finishScore, fromVertical, get, mid } from "./angles";
+import { CUES } from "./cues";
+import type { KP, ScoreContext, ScoreResult } from "./angles";
+
+/** Range is judged over roughly one slow cat–cow cycle. */
+const WINDOW_MS = 5000;
+/** Degrees of spinal curve the cycle should cover. */
+const MIN_RANGE = 25;
+
+/**
+ * Signed spinal curve in degrees: positive rounds up (cat), negative sinks (cow).
+ * There's no mid-back keypoint, so it combines the two ends of the spine:
+ * head pitch against the trunk line plus pelvic tilt against the thigh.
+ */
+export function spineCurve(kps: KP[]): number | null {
+  const ear = mid(get(kps,"left_ear"), get(kps,"right_ear"));
+  const s = mid(get(kps,"left_shoulder"), get(kps,"right_shoulder"));
+  const h = mid(get(kps,"left_hip"), get(kps,"right_hip"));
+  const pelvis = angleOf(s, h, mid(get(kps,"left_knee"), get(kps,"right_knee")));
+  if (!ear || !s || !h || pelvis === null) return null;
+
+  const t = { x: s.x - h.x, y: s.y - h.y };
+  const head = { x: ear.x - s.x, y: ear.y - s.y };
+  // Image y points down, so flip by facing direction to make "head drops" positive
+  const pitch = Math.atan2(t.x * head.y - t.y * head.x, t.x * head.x + t.y * head.y) * 180 / Math.PI;
+  return pitch * Math.sign(t.x || 1) + (pelvis - 90);
+}
+
+/**
+ * Range is judged over a whole cycle, so each session gets its own scorer
+ * holding the recent curve readings. Old readings age out, and time going
+ * backwards (a clip seeked back, a replay started over) clears them.
+ */
+export function createCatCowScorer() {
+  let history: { v: number; at: number }[] = [];
+  let last: number | null = null;
+
+  return function scoreCatCow(kps: KP[], { now }: ScoreContext): ScoreResult {
+    const cues: string[] = [];
+    const unknown: string[] = [];
+    let score = 100;
+
+    if (last !== null && now < last) history = [];
+    last = now;
+    const curve = spineCurve(kps);
+    history = history.filter(r => now - r.at < WINDOW_MS);
+    if (curve === null) unknown.push("spinal range");
+    else {
+      history.push({ v: curve, at: now });
+      const vs = history.map(r => r.v);
+      // Only judge range once most of a cycle has been seen
+      if (now - history[0].at > WINDOW_MS * 0.8 && Math.max(...vs) - Math.min(...vs) < MIN_RANGE) {
+        cues.push(CUES.cat_cow_range.text); score -= 20;
+      }
+    }
+
+    const hands = fromVertical(mid(get(kps,"left_shoulder"), get(kps,"right_shoulder")), mid(get(kps,"left_wrist"), get(kps,"right_wrist")));
+    if (hands === null) unknown.push("hand position");
+    else if (hands > 20) { cues.push(CUES.cat_cow_hands.text); score -= 5; }
+
+    const knees = fromVertical(mid(get(kps,"left_hip"), get(kps,"right_hip")), mid(get(kps,"left_knee"), get(kps,"right_knee")));
+    if (knees === null) unknown.push("knee position");
+    else if (knees > 20) { cues.push(CUES.cat_cow_knees.text); score -= 5; }
+
+    return finishScore(score, cues, unknown, 3);
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import type { KP } from "./angles";
+import { CUES } from "./cues";
+import { createHoldTimer } from "./holdTimer";
+import { scoreCurlUp } from "./scoreCurlUp";
+
+/** On the back, side-on, head to the right: one knee bent, the other leg long. */
+function lying(shoulderRise: number): KP[] {
+  const joints: Record<string, [number, number]> = {
+    hip: [400, 400], knee: [270, 330], ankle: [180, 400],
+    shoulder: [570, 400 - shoulderRise], ear: [620, 395 - shoulderRise],
+  };
+  const kps = Object.entries(joints).flatMap(([j, [x, y]]) => [
+    { name: `left_${j}`, x, y, score: 0.9 },
+    { name: `right_${j}`, x, y, score: 0.9 },
+  ]);
+  // The far leg lies straight
+  const r = (n: string) => kps.find(k => k.name === n)!;
+  Object.assign(r("right_knee"), { x: 255, y: 400 });
+  Object.assign(r("right_ankle"), { x: 120, y: 400 });
+  return kps;
+}
+
+describe("scoreCurlUp", () => {
+  it("scores a small lift cleanly", () => {
+    expect(scoreCurlUp(lying(20))).toEqual({ score: 100, cues: [], unknown: [] });
+  });
+
+  it("cues a lift that turns into a sit-up", () => {
+    expect(scoreCurlUp(lying(120)).cues).toContain(CUES.curl_up_height.text);
+  });
+
+  it("cues lying flat and keeps it off the hold clock", () => {
+    const flat = scoreCurlUp(lying(0));
+    expect(flat.cues).toEqual([CUES.curl_up_low.text]);
+
+    const hold = createHoldTimer({ targetSec: 10 });
+    let state = hold.update(flat.score, true, 0);
+    for (let t = 100; t <= 5000; t += 100) state = hold.update(flat.score, true, t);
+    expect(state).toMatchObject({ goodSec: 0, totalSec: 5, holding: false });
+  });
+});
@@ -0,0 +1,41 @@
+import { angleOf, finishScore, get, mid } from "./angles";
+import { CUES } from "./cues";
+import type { KP, ScoreResult } from "./angles";
+import { HOLD_MIN_SCORE } from "./holdTimer";
+
+/** Trunk rise above the floor line (degrees) that counts as lifted, and the most before it's a sit-up. */
+const MIN_LIFT = 4;
+const MAX_LIFT = 30;
+
+/** McGill curl-up: head and shoulders lift just off the floor, neck stays in line. */
+export function scoreCurlUp(kps: KP[]): ScoreResult {
+  const ear = mid(get(kps,"left_ear"), get(kps,"right_ear"));
+  const s = mid(get(kps,"left_shoulder"), get(kps,"right_shoulder"));
+  const h = mid(get(kps,"left_hip"), get(kps,"right_hip"));
+
+  const neck = angleOf(ear, s, h);
+  // Trunk rise above the floor line, in degrees
+  const lift = s && h ? Math.atan2(h.y - s.y, Math.abs(s.x - h.x)) * 180 / Math.PI : null;
+  const kL = angleOf(get(kps,"left_hip"), get(kps,"left_knee"), get(kps,"left_ankle"));
+  const kR = angleOf(get(kps,"right_hip"), get(kps,"right_knee"), get(kps,"right_ankle"));
+
+  const cues: string[] = [];
+  const unknown: string[] = [];
+  let score = 100;
+
+  if (lift === null) unknown.push("lift height");
+  else if (lift > MAX_LIFT) { cues.push(CUES.curl_up_height.text); score -= 20; }
+  else if (lift < MIN_LIFT) {
+    // Lying flat isn't the exercise: stay under the hold clock's bar so the time doesn't count
+    cues.push(CUES.curl_up_low.text);
+    score = Math.min(score, HOLD_MIN_SCORE) - 20;
+  }
+  if (neck === null) unknown.push("neck position");
+  else if (neck < 150) { cues.push(CUES.curl_up_neck.text); score -= 15; }
+
+  // One knee bent, the other leg long keeps the pelvis from rolling
+  if (kL === null || kR === null) unknown.push("leg position");
+  else if (Math.max(kL, kR) < 155 || Math.min(kL, kR) > 130) { cues.push(CUES.curl_up_legs.text); score -= 5; }
+
+  return finishScore(score, cues, unknown, 3);
+}
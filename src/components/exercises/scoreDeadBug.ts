@@ -1,7 +1,10 @@
-import { angleDeg, get } from "./angles";
-import type { KP } from "./angles";
+import { angleOf, finishScore, get, tilt } from "./angles";
+import { CUES } from "./cues";
+import { activeDiagonal, opposite } from "./diagonal";
+import { DEAD_BUG_REPS } from "./repCounter";
+import type { KP, ScoreContext, ScoreResult } from "./angles";
 
-export function scoreDeadBug(kps: KP[]) {
+export function scoreDeadBug(kps: KP[], { unit }: ScoreContext): ScoreResult {
   const shoulder = { 
     left: get(kps, "left_shoulder"), 
     right: get(kps, "right_shoulder") 
@@ -28,42 +31,50 @@ export function scoreDeadBug(kps: KP[]) {
   };
 
   const cues: string[] = [];
+  const unknown: string[] = [];
   let score = 100;
 
+  // Score whichever diagonal is reaching; at rest only the hips are checked
+  const side = activeDiagonal(kps, DEAD_BUG_REPS.startAt);
+
+  // Hip levelness
+  const hipTilt = tilt(hip.left, hip.right);
+  if (hipTilt === null) unknown.push("hip level");
+  else if (hipTilt / unit > 0.09) {
+    cues.push(CUES.hips_level_stable.text);
+    score -= 10;
+  }
+
+  if (!side) return finishScore(score, cues, unknown, 1);
+  const other = opposite(side);
+
   // Check arm and leg extension
-  const leftArmAngle = angleDeg(shoulder.left, elbow.left, wrist.left);
-  const rightLegAngle = angleDeg(hip.right, knee.right, ankle.right);
+  const armAngle = angleOf(shoulder[side], elbow[side], wrist[side]);
+  const legAngle = angleOf(hip[other], knee[other], ankle[other]);
 
-  // Check spine alignment
-  const spineAngle = angleDeg(shoulder.left, hip.left, knee.left);
+  // Check spine alignment along the reaching leg
+  const spineAngle = angleOf(shoulder[other], hip[other], knee[other]);
 
   // Arm extension check
-  if (leftArmAngle > 190 || leftArmAngle < 160) {
-    cues.push("Keep arm extended, parallel to ground.");
+  if (armAngle === null) unknown.push("arm extension");
+  else if (armAngle > 190 || armAngle < 160) {
+    cues.push(CUES.dead_bug_arm.text);
     score -= 15;
   }
 
   // Leg extension check
-  if (rightLegAngle > 190 || rightLegAngle < 160) {
-    cues.push("Extend leg fully, keep lower back pressed.");
+  if (legAngle === null) unknown.push("leg extension");
+  else if (legAngle > 190 || legAngle < 160) {
+    cues.push(CUES.dead_bug_leg.text);
     score -= 15;
   }
 
   // Spine alignment check
-  if (spineAngle < 150 || spineAngle > 210) {
-    cues.push("Maintain a neutral spine. Press lower back into ground.");
+  if (spineAngle === null) unknown.push("spine alignment");
+  else if (spineAngle < 150 || spineAngle > 210) {
+    cues.push(CUES.dead_bug_spine.text);
     score -= 20;
   }
 
-  // Hip levelness
-  const hipTilt = Math.abs(hip.left.y - hip.right.y);
-  if (hipTilt > 15) {
-    cues.push("Keep hips level and stable.");
-    score -= 10;
-  }
-
-  return { 
-    score: Math.max(0, Math.min(100, score)), 
-    cues 
-  };
+  return { ...finishScore(score, cues, unknown, 4), side };
 }
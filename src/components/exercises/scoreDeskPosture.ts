@@ -0,0 +1,45 @@
+import { finishScore, get, tilt } from "./angles";
+import { CUES } from "./cues";
+import type { KP, ScoreResult } from "./angles";
+import type { DeskState } from "./desk";
+
+/**
+ * Per-frame checks that need no neutral: shoulders and head level, in
+ * shoulder widths since the hips are usually hidden by the desk.
+ * Head position and slouch are judged against neutral in assessDesk.
+ */
+export function scoreDeskPosture(kps: KP[]): ScoreResult {
+  const lS = get(kps, "left_shoulder"), rS = get(kps, "right_shoulder");
+  const width = lS && rS ? Math.hypot(lS.x - rS.x, lS.y - rS.y) : null;
+
+  const cues: string[] = [];
+  const unknown: string[] = [];
+  let score = 100;
+
+  // 1. Shoulders level (leaning on one elbow, mouse arm hitched up)
+  const shoulderTilt = tilt(lS, rS);
+  if (shoulderTilt === null || !width) unknown.push("shoulder level");
+  else if (shoulderTilt / width > 0.1) {
+    cues.push(CUES.desk_shoulders_level.text);
+    score -= 10;
+  }
+
+  // 2. Head level
+  const headTilt = tilt(get(kps, "left_ear"), get(kps, "right_ear"));
+  if (headTilt === null || !width) unknown.push("head tilt");
+  else if (headTilt / width > 0.12) {
+    cues.push(CUES.desk_head_tilt.text);
+    score -= 10;
+  }
+
+  return finishScore(score, cues, unknown, 2);
+}
+
+/** Adds the monitor's neutral-relative findings to the per-frame checks. */
+export function assessDesk(frame: ScoreResult, desk: DeskState): ScoreResult {
+  return {
+    ...frame,
+    score: Math.max(0, frame.score - desk.cues.length * 20),
+    cues: [...desk.cues, ...frame.cues],
+  };
+}
@@ -0,0 +1,32 @@
+import { angleOf, belowLine, finishScore, get, mid, tilt } from "./angles";
+import { CUES } from "./cues";
+import type { KP, ScoreContext, ScoreResult } from "./angles";
+
+export function scoreGluteBridge(kps: KP[], { unit }: ScoreContext): ScoreResult {
+  const lH = get(kps,"left_hip"), rH = get(kps,"right_hip");
+  const s = mid(get(kps,"left_shoulder"), get(kps,"right_shoulder"));
+  const h = mid(lH, rH);
+  const k = mid(get(kps,"left_knee"), get(kps,"right_knee"));
+  const a = mid(get(kps,"left_ankle"), get(kps,"right_ankle"));
+
+  const hipExt = angleOf(s, h, k);
+  const knee = angleOf(h, k, a);
+
+  const cues: string[] = [];
+  const unknown: string[] = [];
+  let score = 100;
+
+  // Short of a straight shoulder–knee line: hips sitting above it means the low back is arching
+  const arched = (belowLine(s, k, h) ?? 0) < 0;
+  if (hipExt === null) unknown.push("hip extension");
+  else if (hipExt < 160 && arched) { cues.push(CUES.bridge_arch.text); score -= 20; }
+  else if (hipExt < 160) { cues.push(CUES.bridge_lift.text); score -= 15; }
+  if (knee === null) unknown.push("knee bend");
+  else if (knee < 70 || knee > 110) { cues.push(CUES.bridge_feet.text); score -= 5; }
+
+  const hipTilt = tilt(lH, rH);
+  if (hipTilt === null) unknown.push("pelvis level");
+  else if (hipTilt / unit > 0.09) { cues.push(CUES.level_hips.text); score -= 10; }
+
+  return finishScore(score, cues, unknown, 3);
+}
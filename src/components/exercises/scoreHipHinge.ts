@@ -1,29 +1,50 @@
-import { angleDeg, get } from "./angles";
-import type { KP } from "./angles";
+import { angleOf, finishScore, get, mid, tilt } from "./angles";
+import { CUES } from "./cues";
+import type { KP, ScoreContext, ScoreResult } from "./angles";
 
+/**
+ * How far the knee sits ahead of the toes, in torso lengths (positive = past
+ * them), on whichever side has heel, toe and knee in view. Needs a model that
+ * tracks the feet (BlazePose); null otherwise.
+ */
+function kneePastToes(kps: KP[], unit: number): number | null {
+  for (const side of ["left", "right"] as const) {
+    const heel = get(kps, `${side}_heel`), toe = get(kps, `${side}_foot_index`), knee = get(kps, `${side}_knee`);
+    if (!heel || !toe || !knee || Math.abs(toe.x - heel.x) < 1) continue;
+    // Toes point the way the user faces
+    return Math.sign(toe.x - heel.x) * (knee.x - toe.x) / unit;
+  }
+  return null;
+}
 
-export function scoreHipHinge(kps: KP[]) {
-  const lS = get(kps,"left_shoulder"), rS = get(kps,"right_shoulder");
+export function scoreHipHinge(kps: KP[], { unit }: ScoreContext): ScoreResult {
   const lH = get(kps,"left_hip"), rH = get(kps,"right_hip");
-  const lK = get(kps,"left_knee"), rK = get(kps,"right_knee");
-  const shoulder = { x:(lS.x+rS.x)/2, y:(lS.y+rS.y)/2 };
-  const hip = { x:(lH.x+rH.x)/2, y:(lH.y+rH.y)/2 };
-  const knee = { x:(lK.x+rK.x)/2, y:(lK.y+rK.y)/2 };
+  const shoulder = mid(get(kps,"left_shoulder"), get(kps,"right_shoulder"));
+  const hip = mid(lH, rH);
+  const knee = mid(get(kps,"left_knee"), get(kps,"right_knee"));
 
-  const trunk = angleDeg(shoulder, hip, knee);
-  const kL = angleDeg(get(kps,"left_hip"), get(kps,"left_knee"), get(kps,"left_ankle"));
-  const kR = angleDeg(get(kps,"right_hip"), get(kps,"right_knee"), get(kps,"right_ankle"));
-  const kneeAngle = (kL + kR)/2;
+  const trunk = angleOf(shoulder, hip, knee);
+  const kL = angleOf(lH, get(kps,"left_knee"), get(kps,"left_ankle"));
+  const kR = angleOf(rH, get(kps,"right_knee"), get(kps,"right_ankle"));
+  const kneeAngle = kL !== null && kR !== null ? (kL + kR)/2 : kL ?? kR;
 
   const cues: string[] = [];
+  const unknown: string[] = [];
   let score = 100;
 
-  if (kneeAngle < 155) { cues.push("Less knee bend — micro-bend only."); score -= 15; }
-  if (trunk > 165) { cues.push("Push hips back; hinge more."); score -= 15; }
-  if (trunk < 95)  { cues.push("Don’t overfold; limit range."); score -= 10; }
+  if (kneeAngle === null) unknown.push("knee bend");
+  else if (kneeAngle < 155) { cues.push(CUES.hinge_knee_bend.text); score -= 15; }
+  if (trunk === null) unknown.push("trunk angle");
+  else if (trunk > 165) { cues.push(CUES.hinge_more.text); score -= 15; }
+  else if (trunk < 95)  { cues.push(CUES.hinge_overfold.text); score -= 10; }
+
+  const hipTilt = tilt(lH, rH);
+  if (hipTilt === null) unknown.push("hip level");
+  else if (hipTilt / unit > 0.12) { cues.push(CUES.level_hips.text); score -= 10; }
 
-  const hipTilt = Math.abs(lH.y - rH.y);
-  if (hipTilt > 20) { cues.push("Level your hips."); score -= 10; }
+  // Only with foot points; not an unknown when the model can't see feet
+  const past = kneePastToes(kps, unit);
+  if (past !== null && past > 0) { cues.push(CUES.hinge_knees_forward.text); score -= 10; }
 
-  return { score: Math.max(0, Math.min(100, score)), cues };
+  return finishScore(score, cues, unknown, 3);
 }
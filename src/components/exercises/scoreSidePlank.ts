@@ -0,0 +1,34 @@
+import { belowLine, finishScore, fromVertical, get, mid } from "./angles";
+import { CUES } from "./cues";
+import type { KP, ScoreResult } from "./angles";
+
+/** Scored facing the camera: the body line runs across the frame, shoulders stacked. */
+export function scoreSidePlank(kps: KP[]): ScoreResult {
+  const lS = get(kps,"left_shoulder"), rS = get(kps,"right_shoulder");
+  const s = mid(lS, rS);
+  const h = mid(get(kps,"left_hip"), get(kps,"right_hip"));
+  const a = mid(get(kps,"left_ankle"), get(kps,"right_ankle"));
+
+  const cues: string[] = [];
+  const unknown: string[] = [];
+  let score = 100;
+
+  // Hip offset from the shoulder–ankle line, as a fraction of body length
+  const drop = belowLine(s, a, h);
+  const length = s && a ? Math.hypot(a.x - s.x, a.y - s.y) : 0;
+  if (drop === null || length === 0) unknown.push("hip height");
+  else if (drop / length > 0.08) { cues.push(CUES.side_plank_hip_drop.text); score -= 20; }
+  else if (drop / length < -0.08) { cues.push(CUES.side_plank_hip_high.text); score -= 10; }
+
+  const stack = fromVertical(lS, rS);
+  if (stack === null) unknown.push("shoulder stack");
+  else if (stack > 30) { cues.push(CUES.side_plank_stack.text); score -= 15; }
+
+  // The supporting arm is on the side of the lower shoulder
+  const side = lS && rS ? (lS.y > rS.y ? "left" : "right") : null;
+  const elbow = side && fromVertical(get(kps,`${side}_shoulder`), get(kps,`${side}_elbow`));
+  if (elbow === null) unknown.push("elbow position");
+  else if (elbow > 25) { cues.push(CUES.side_plank_elbow.text); score -= 5; }
+
+  return { ...finishScore(score, cues, unknown, 3), side: side ?? undefined };
+}
@@ -0,0 +1,174 @@
+import { angleDeg, get, mid } from "./angles";
+import { CUES } from "./cues";
+import type { KP, Side } from "./angles";
+import { recommend } from "./scoreWalkingPosture";
+import type { PostureRecommendations } from "./scoreWalkingPosture";
+
+/** Measured angles in degrees; null when the view wasn't captured or the joints weren't seen. */
+export type StandingAngles = {
+  /** Side view: ear ahead of the shoulder, from vertical. */
+  headForward: number | null;
+  /** Front view: shoulder line from horizontal, positive when the left shoulder is higher. */
+  shoulderTilt: number | null;
+  /** Front view: hip line from horizontal, positive when the left hip is higher. */
+  hipTilt: number | null;
+  /**
+   * Side view proxy for pelvic tilt: how far the hip is bent (trunk forward of
+   * the hip plus thigh forward of the hip). Positive reads as an anterior tilt,
+   * negative as hips pushed forward (sway-back, posterior tilt).
+   */
+  pelvicTilt: number | null;
+  /** Front view: knee bend away from a straight hip–ankle line, positive when the knee drifts inwards. */
+  knee: Record<Side, number | null>;
+};
+
+export interface StandingPostureAssessment {
+  score: number;
+  cues: string[];
+  unknown: string[];
+  angles: StandingAngles;
+  recommendations: PostureRecommendations;
+}
+
+/** Angles beyond which a finding is reported, in degrees. */
+export const STANDING_LIMITS = {
+  headForward: 20,
+  shoulderTilt: 3,
+  hipTilt: 3,
+  pelvicTilt: 10,
+  knee: 8,
+};
+
+const deg = (rad: number) => rad * 180 / Math.PI;
+
+/** Line from horizontal, positive when the left joint sits higher in the image. */
+function levelAngle(l: KP | null, r: KP | null): number | null {
+  return l && r ? deg(Math.atan2(r.y - l.y, Math.abs(l.x - r.x))) : null;
+}
+
+/** Knee bend off the hip–ankle line, signed positive when the knee sits nearer the midline. */
+function kneeAngle(kps: KP[], side: Side, midX: number): number | null {
+  const h = get(kps, `${side}_hip`), k = get(kps, `${side}_knee`), a = get(kps, `${side}_ankle`);
+  if (!h || !k || !a) return null;
+  const t = Math.abs(a.y - h.y) < 1e-6 ? 0.5 : (k.y - h.y) / (a.y - h.y);
+  const lineX = h.x + t * (a.x - h.x);
+  const inward = Math.abs(k.x - midX) < Math.abs(lineX - midX);
+  const bend = 180 - angleDeg(h, k, a);
+  return inward ? bend : -bend;
+}
+
+/** Joint on the side nearer the camera (the more confident shoulder), falling back to the other. */
+function nearSide(kps: KP[]): (joint: string) => KP | null {
+  const l = get(kps, "left_shoulder")?.score ?? 0, r = get(kps, "right_shoulder")?.score ?? 0;
+  const [near, far] = l >= r ? ["left", "right"] : ["right", "left"];
+  return joint => get(kps, `${near}_${joint}`) ?? get(kps, `${far}_${joint}`);
+}
+
+export function measureStanding(frontal: KP[] | null, side: KP[] | null): StandingAngles {
+  const angles: StandingAngles = {
+    headForward: null, shoulderTilt: null, hipTilt: null, pelvicTilt: null,
+    knee: { left: null, right: null },
+  };
+
+  if (frontal) {
+    const lH = get(frontal, "left_hip"), rH = get(frontal, "right_hip");
+    angles.shoulderTilt = levelAngle(get(frontal, "left_shoulder"), get(frontal, "right_shoulder"));
+    angles.hipTilt = levelAngle(lH, rH);
+    const hip = mid(lH, rH);
+    if (hip) angles.knee = { left: kneeAngle(frontal, "left", hip.x), right: kneeAngle(frontal, "right", hip.x) };
+  }
+
+  if (side) {
+    const j = nearSide(side);
+    const ear = j("ear"), shoulder = j("shoulder"), hip = j("hip"), knee = j("knee");
+    // Facing direction from nose vs ear: +1 towards image right
+    const nose = get(side, "nose");
+    const dir = nose && ear && Math.abs(nose.x - ear.x) > 2 ? Math.sign(nose.x - ear.x) : null;
+    if (dir !== null && ear && shoulder) {
+      angles.headForward = deg(Math.atan2(dir * (ear.x - shoulder.x), shoulder.y - ear.y));
+    }
+    if (dir !== null && shoulder && hip && knee) {
+      const trunk = deg(Math.atan2(dir * (shoulder.x - hip.x), hip.y - shoulder.y));
+      const thigh = deg(Math.atan2(dir * (knee.x - hip.x), knee.y - hip.y));
+      angles.pelvicTilt = trunk + thigh;
+    }
+  }
+
+  return angles;
+}
+
+/**
+ * One-off standing assessment from a front and a side snapshot. Either may be
+ * null: only the checks its view allows are scored.
+ */
+export function scoreStandingPosture(frontal: KP[] | null, side: KP[] | null): StandingPostureAssessment {
+  const angles = measureStanding(frontal, side);
+  const cues: string[] = [];
+  const unknown: string[] = [];
+  const exercises: string[] = [];
+  let score = 100;
+  let checks = 0;
+  let findings = 0;
+
+  const finding = (cue: string, penalty: number, ...moves: string[]) => {
+    cues.push(cue);
+    exercises.push(...moves);
+    score -= penalty;
+    findings++;
+  };
+
+  if (side) {
+    // 1. Head position
+    checks++;
+    if (angles.headForward === null) unknown.push("head position");
+    else if (angles.headForward > STANDING_LIMITS.headForward) {
+      finding(CUES.stand_head_forward.text, 15, "Chin Tucks", "Thoracic Extension");
+    }
+
+    // 2. Pelvic tilt
+    checks++;
+    if (angles.pelvicTilt === null) unknown.push("pelvic tilt");
+    else if (angles.pelvicTilt > STANDING_LIMITS.pelvicTilt) {
+      finding(CUES.stand_pelvis_anterior.text, 15, "Hip Flexor Stretches", "Glute Bridge");
+    } else if (angles.pelvicTilt < -STANDING_LIMITS.pelvicTilt) {
+      finding(CUES.stand_pelvis_posterior.text, 15, "Core Strengthening", "Glute Bridge");
+    }
+  }
+
+  if (frontal) {
+    // 3. Shoulder height
+    checks++;
+    if (angles.shoulderTilt === null) unknown.push("shoulder height");
+    else if (Math.abs(angles.shoulderTilt) > STANDING_LIMITS.shoulderTilt) {
+      finding(CUES.stand_shoulders_level.text, 10, "Shoulder Blade Squeezes", "Side Plank");
+    }
+
+    // 4. Hip height
+    checks++;
+    if (angles.hipTilt === null) unknown.push("hip height");
+    else if (Math.abs(angles.hipTilt) > STANDING_LIMITS.hipTilt) {
+      finding(CUES.stand_hips_level.text, 10, "Side Plank", "Side-lying Hip Abduction");
+    }
+
+    // 5. Knee alignment (worst knee)
+    checks++;
+    const knees = [angles.knee.left, angles.knee.right].filter((k): k is number => k !== null);
+    if (!knees.length) unknown.push("knee alignment");
+    else {
+      const worst = knees.reduce((a, k) => Math.abs(k) > Math.abs(a) ? k : a);
+      if (worst > STANDING_LIMITS.knee) {
+        finding(CUES.stand_knees_in.text, 10, "Glute Activation Exercises", "Side-lying Hip Abduction");
+      } else if (worst < -STANDING_LIMITS.knee) {
+        finding(CUES.stand_knees_out.text, 5, "Balance and Stability Training");
+      }
+    }
+  }
+
+  return {
+    score: checks && unknown.length < checks ? Math.max(0, Math.min(100, score)) : 0,
+    cues,
+    unknown,
+    angles,
+    recommendations: recommend(findings, exercises),
+  };
+}
@@ -1,109 +1,113 @@
-import { angleDeg, get } from "./angles";
-import type { KP } from "./angles";
+import { angleOf, finishScore, get } from "./angles";
+import { CUES } from "./cues";
+import type { KP, ScoreResult } from "./angles";
+import type { GaitMetrics } from "./gait";
 
 export interface WalkingPostureAssessment {
   score: number;
   cues: string[];
-  recommendations: {
-    exercises: string[];
-    duration: number;
-    frequency: string;
-  };
+  unknown: string[];
+  /** Null until enough steps have been seen to measure gait. */
+  gait: GaitMetrics | null;
+  recommendations: PostureRecommendations;
 }
 
-export function scoreWalkingPosture(kps: KP[]): WalkingPostureAssessment {
-  // Key body points for walking posture
-  const ankle = {
-    left: get(kps, "left_ankle"),
-    right: get(kps, "right_ankle")
-  };
-  const knee = {
-    left: get(kps, "left_knee"),
-    right: get(kps, "right_knee")
-  };
-  const hip = {
-    left: get(kps, "left_hip"),
-    right: get(kps, "right_hip")
-  };
-  const shoulder = {
-    left: get(kps, "left_shoulder"),
-    right: get(kps, "right_shoulder")
-  };
-  const ear = {
-    left: get(kps, "left_ear"),
-    right: get(kps, "right_ear")
-  };
+export type PostureRecommendations = {
+  exercises: string[];
+  /** Minutes per session. */
+  duration: number;
+  frequency: string;
+};
+
+/** Gait limits beyond which a finding is reported. */
+export const GAIT_LIMITS = {
+  /** Steps per minute; easy walking is usually 100–120. */
+  minCadence: 90,
+  /** Left/right step length difference, % of mean. */
+  maxAsymmetry: 10,
+  /** Degrees. */
+  maxSway: 8,
+  maxLean: 10,
+  maxPelvicDrop: 5,
+};
+
+/** Per-frame checks; stride and hip-level are judged over whole steps in assessWalking. */
+export function scoreWalkingPosture(kps: KP[]): ScoreResult {
+  const ear = get(kps, "left_ear") ?? get(kps, "right_ear");
+  const shoulder = get(kps, "left_shoulder") ?? get(kps, "right_shoulder");
+  const hip = get(kps, "left_hip") ?? get(kps, "right_hip");
 
   const cues: string[] = [];
+  const unknown: string[] = [];
   let score = 100;
 
   // 1. Spine Alignment
-  const spineAngle = angleDeg(ear.left, shoulder.left, hip.left);
-  if (spineAngle < 170 || spineAngle > 190) {
-    cues.push("Maintain a neutral spine. Keep head aligned with shoulders.");
+  const spineAngle = angleOf(ear, shoulder, hip);
+  if (spineAngle === null) unknown.push("spine alignment");
+  else if (spineAngle < 170 || spineAngle > 190) {
+    cues.push(CUES.walk_spine.text);
     score -= 20;
   }
 
-  // 2. Hip and Shoulder Alignment
-  const hipLevelDiff = Math.abs(hip.left.y - hip.right.y);
-  if (hipLevelDiff > 30) {
-    cues.push("Keep hips level. Avoid tilting to one side while walking.");
+  // 2. Knee Tracking
+  const kneeTrackingAngle = angleOf(get(kps, "left_hip"), get(kps, "left_knee"), get(kps, "left_ankle"));
+  if (kneeTrackingAngle === null) unknown.push("knee tracking");
+  else if (kneeTrackingAngle < 160 || kneeTrackingAngle > 200) {
+    cues.push(CUES.walk_knees.text);
     score -= 15;
   }
 
-  // 3. Knee Tracking
-  const kneeTrackingAngle = angleDeg(hip.left, knee.left, ankle.left);
-  if (kneeTrackingAngle < 160 || kneeTrackingAngle > 200) {
-    cues.push("Align knees properly. Avoid inward or outward knee rotation.");
-    score -= 15;
-  }
+  return finishScore(score, cues, unknown, 2);
+}
 
-  // 4. Stride Length and Symmetry
-  const strideLength = Math.abs(ankle.left.x - ankle.right.x);
-  const idealStrideLength = 100; // Adjust based on typical body proportions
-  const strideDiff = Math.abs(strideLength - idealStrideLength);
-  if (strideDiff > 50) {
-    cues.push("Maintain consistent stride length. Avoid overstriding or short steps.");
-    score -= 10;
-  }
+/** Combines the per-frame checks with gait metrics into cues, a score and recommendations. */
+export function assessWalking(frame: ScoreResult, gait: GaitMetrics | null): WalkingPostureAssessment {
+  const cues = [...frame.cues];
+  const exercises: string[] = [];
+  let score = frame.score;
+  let findings = 0;
+
+  const finding = (cue: string, penalty: number, ...moves: string[]) => {
+    cues.push(cue);
+    exercises.push(...moves);
+    score -= penalty;
+    findings++;
+  };
 
-  // Determine severity and recommendations
-  let recommendations: WalkingPostureAssessment['recommendations'];
-  if (score < 50) {
-    recommendations = {
-      exercises: [
-        "Hip Mobility Stretches",
-        "Core Strengthening",
-        "Glute Activation Exercises",
-        "Balance and Stability Training"
-      ],
-      duration: 20,
-      frequency: "Daily for 2-3 weeks"
-    };
-  } else if (score < 75) {
-    recommendations = {
-      exercises: [
-        "Gentle Spine Mobility",
-        "Hip Flexor Stretches",
-        "Walking Technique Drills"
-      ],
-      duration: 15,
-      frequency: "4-5 times per week"
-    };
-  } else {
-    recommendations = {
-      exercises: [
-        "Maintenance Stretches",
-        "Light Mobility Work"
-      ],
-      duration: 10,
-      frequency: "2-3 times per week"
-    };
+  if (gait) {
+    if (gait.pelvicDrop !== null && gait.pelvicDrop > GAIT_LIMITS.maxPelvicDrop) {
+      finding(CUES.walk_hips.text, 15, "Glute Activation Exercises", "Side-lying Hip Abduction");
+    }
+    if (gait.trunkLean !== null && gait.trunkLean > GAIT_LIMITS.maxLean) {
+      finding(CUES.walk_lean.text, 10, "Hip Flexor Stretches", "Gentle Spine Mobility");
+    }
+    if (gait.trunkSway !== null && gait.trunkSway > GAIT_LIMITS.maxSway) {
+      finding(CUES.walk_sway.text, 10, "Core Strengthening");
+    }
+    if (gait.symmetry !== null && gait.symmetry > GAIT_LIMITS.maxAsymmetry) {
+      finding(CUES.walk_stride.text, 10, "Balance and Stability Training", "Hip Flexor Stretches");
+    }
+    if (gait.cadence !== null && gait.cadence < GAIT_LIMITS.minCadence) {
+      finding(CUES.walk_cadence.text, 5, "Walking Technique Drills");
+    }
   }
 
   return {
     score: Math.max(0, Math.min(100, score)),
     cues,
-    recommendations
+    unknown: frame.unknown ?? [],
+    gait,
+    recommendations: recommend(findings, exercises),
+  };
+}
+
+/** More findings, more frequent work; no findings gets a maintenance routine. */
+export function recommend(findings: number, exercises: string[]): PostureRecommendations {
+  if (findings >= 3) return { exercises: [...new Set(exercises)], duration: 20, frequency: "Daily for 2-3 weeks" };
+  if (findings > 0) return { exercises: [...new Set(exercises)], duration: 15, frequency: "4-5 times per week" };
+  return {
+    exercises: ["Maintenance Stretches", "Light Mobility Work"],
+    duration: 10,
+    frequency: "2-3 times per week"
   };
 }
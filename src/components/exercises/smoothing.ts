@@ -0,0 +1,70 @@
+import { MIN_CONFIDENCE } from "./angles";
+import type { KP } from "./angles";
+
+export type SmoothingOptions = {
+  /** One Euro cutoff (Hz) when still; lower = smoother but laggier. */
+  minCutoff?: number;
+  /** How fast the cutoff opens with joint speed (per px/s). */
+  beta?: number;
+  /** Cutoff (Hz) for the speed estimate. */
+  dCutoff?: number;
+  /** Weight of each new confidence reading (0–1). */
+  scoreAlpha?: number;
+  /** After a dropout this long, snap to the next confident reading. */
+  resetMs?: number;
+};
+
+type JointState = { x: number; y: number; dx: number; dy: number; score: number; t: number };
+
+function alpha(cutoff: number, dt: number) {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+/**
+ * One Euro filter per joint, applied between `estimatePoses` and scoring.
+ * Low-confidence readings don't move the joint; they only pull its
+ * smoothed confidence down, so a one-frame dropout doesn't flip it to unknown.
+ */
+export function createKeypointFilter({
+  minCutoff = 1.5, beta = 0.01, dCutoff = 1, scoreAlpha = 0.4, resetMs = 500,
+}: SmoothingOptions = {}) {
+  const joints = new Map<string, JointState>();
+
+  function filter(kps: KP[], now = performance.now()): KP[] {
+    return kps.map((k, i) => {
+      const key = k.name ?? String(i);
+      const raw = k.score ?? 1;
+      const prev = joints.get(key);
+
+      if (!prev || (raw >= MIN_CONFIDENCE && now - prev.t > resetMs)) {
+        if (raw >= MIN_CONFIDENCE) joints.set(key, { x: k.x, y: k.y, dx: 0, dy: 0, score: raw, t: now });
+        return k;
+      }
+
+      const score = prev.score + scoreAlpha * (raw - prev.score);
+      if (raw < MIN_CONFIDENCE) {
+        prev.score = score;
+        return { ...k, x: prev.x, y: prev.y, score };
+      }
+
+      const dt = Math.max(1e-3, (now - prev.t) / 1000);
+      const ad = alpha(dCutoff, dt);
+      const dx = prev.dx + ad * ((k.x - prev.x) / dt - prev.dx);
+      const dy = prev.dy + ad * ((k.y - prev.y) / dt - prev.dy);
+      const a = alpha(minCutoff + beta * Math.hypot(dx, dy), dt);
+      const x = prev.x + a * (k.x - prev.x);
+      const y = prev.y + a * (k.y - prev.y);
+      joints.set(key, { x, y, dx, dy, score, t: now });
+      return { ...k, x, y, score };
+    });
+  }
+
+  function reset() {
+    joints.clear();
+  }
+
+  return { filter, reset };
+}
+
+export type KeypointFilter = ReturnType<typeof createKeypointFilter>;
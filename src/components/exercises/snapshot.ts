@@ -0,0 +1,53 @@
+import { get, mid } from "./angles";
+import type { KP } from "./angles";
+
+export type SnapshotState = {
+  /** 0–1 through the hold; drops back to 0 if the user moves. */
+  progress: number;
+  /** True on the frame the hold completes, and every frame after until reset. */
+  ready: boolean;
+};
+
+/** Shoulder and hip midpoints, the joints that move when someone shifts their stance. */
+function anchors(kps: KP[]): KP[] | null {
+  const s = mid(get(kps, "left_shoulder"), get(kps, "right_shoulder"));
+  const h = mid(get(kps, "left_hip"), get(kps, "right_hip"));
+  return s && h ? [s, h] : null;
+}
+
+/**
+ * Hands-free photo timer: fires once the user has stood still in position
+ * for `holdMs`. Drift is measured in torso lengths so it holds at any distance.
+ */
+export function createSnapshotTrigger({ holdMs = 3000, maxDrift = 0.05 } = {}) {
+  let start: KP[] | null = null;
+  let since: number | null = null;
+  let ready = false;
+
+  /** `inPosition` is false while the user is still turning or stepping into view. */
+  function update(kps: KP[], unit: number, inPosition: boolean, now = performance.now()): SnapshotState {
+    if (ready) return { progress: 1, ready };
+    const a = anchors(kps), from = start;
+    if (!inPosition || !a) {
+      start = null;
+      since = null;
+    } else if (!from || a.some((p, i) => Math.hypot(p.x - from[i].x, p.y - from[i].y) > maxDrift * unit)) {
+      // Moved: restart the hold from here
+      start = a;
+      since = now;
+    }
+    const progress = since === null ? 0 : Math.min(1, (now - since) / holdMs);
+    ready = progress >= 1;
+    return { progress, ready };
+  }
+
+  function reset() {
+    start = null;
+    since = null;
+    ready = false;
+  }
+
+  return { update, reset };
+}
+
+export type SnapshotTrigger = ReturnType<typeof createSnapshotTrigger>;
@@ -0,0 +1,91 @@
+import { get, mid } from "./angles";
+import type { KP } from "./angles";
+
+/** How the body is turned relative to the camera. */
+export type BodyView = "frontal" | "sagittal" | "oblique";
+
+// Shoulder width over torso length: ~0.7 square-on, near 0 side-on
+const FRONTAL_RATIO = 0.5;
+const SAGITTAL_RATIO = 0.25;
+
+/**
+ * Shoulder and hip width measured across the torso axis, relative to torso
+ * length. Measuring across the axis keeps it meaningful when lying down.
+ */
+export function widthRatio(kps: KP[]): number | null {
+  const lS = get(kps, "left_shoulder"), rS = get(kps, "right_shoulder");
+  const lH = get(kps, "left_hip"), rH = get(kps, "right_hip");
+  const s = mid(lS, rS), h = mid(lH, rH);
+  if (!s || !h) return null;
+  const len = Math.hypot(s.x - h.x, s.y - h.y);
+  if (len < 1) return null;
+  // Unit normal to the torso axis
+  const n = { x: -(s.y - h.y) / len, y: (s.x - h.x) / len };
+  const across = (a: KP | null, b: KP | null) => a && b ? Math.abs((a.x - b.x) * n.x + (a.y - b.y) * n.y) : null;
+  const widths = [across(lS, rS), across(lH, rH)].filter((w): w is number => w !== null);
+  return widths.length ? Math.max(...widths) / len : null;
+}
+
+export function viewFromRatio(ratio: number): BodyView {
+  return ratio >= FRONTAL_RATIO ? "frontal" : ratio < SAGITTAL_RATIO ? "sagittal" : "oblique";
+}
+
+/** Per-frame width ratio; one whole side hidden reads as fully side-on. */
+function sample(kps: KP[]): number | null {
+  const left = !!(get(kps, "left_shoulder") && get(kps, "left_hip"));
+  const right = !!(get(kps, "right_shoulder") && get(kps, "right_hip"));
+  if (left !== right) return 0;
+  return widthRatio(kps);
+}
+
+export function classifyView(kps: KP[]): BodyView | null {
+  const r = sample(kps);
+  return r === null ? null : viewFromRatio(r);
+}
+
+const PROMPTS: Record<BodyView, string> = {
+  sagittal: "Turn sideways to the camera",
+  frontal: "Face the camera",
+  oblique: "Turn a little more",
+};
+
+/** What to tell the user to get from the view they're in to the one needed. */
+export function viewPrompt(want: BodyView, seen: BodyView | null): string {
+  if (!seen) return "Step back so your shoulders and hips are in view";
+  return seen === "oblique" ? `${PROMPTS.oblique} — ${PROMPTS[want].toLowerCase()}` : PROMPTS[want];
+}
+
+export type ViewGateState = { view: BodyView | null; open: boolean; prompt: string | null };
+
+/**
+ * Holds scoring back until the user has been in the needed view for `settleMs`.
+ * Once open it stays open until reset, so moving into position (lying down,
+ * going onto all fours) doesn't close it again.
+ */
+export function createViewGate({ settleMs = 800, alpha = 0.25 } = {}) {
+  let ratio: number | null = null;
+  let since: number | null = null;
+  let open = false;
+
+  function update(kps: KP[], want: BodyView, now = performance.now()): ViewGateState {
+    const r = sample(kps);
+    if (r !== null) ratio = ratio === null ? r : ratio + alpha * (r - ratio);
+    const view = ratio === null ? null : viewFromRatio(ratio);
+    if (!open) {
+      if (view !== want) since = null;
+      else if (since === null) since = now;
+      else if (now - since >= settleMs) open = true;
+    }
+    return { view, open, prompt: open ? null : viewPrompt(want, view) };
+  }
+
+  function reset() {
+    ratio = null;
+    since = null;
+    open = false;
+  }
+
+  return { update, reset };
+}
+
+export type ViewGate = ReturnType<typeof createViewGate>;
@@ -0,0 +1,12 @@
+import type { KP } from "./angles";
+
+/** Joint confidence needed before a joint counts as in view. */
+export const VISIBLE_SCORE = 0.45;
+
+export type JointVisibility = { allVisible: boolean; missing: string[] };
+
+/** Which of the named joints the model can't see well enough to score. */
+export function jointVisibility(kps: KP[], names: string[]): JointVisibility {
+  const missing = names.filter(name => !kps.some(k => k.name === name && (k.score ?? 0) > VISIBLE_SCORE));
+  return { allVisible: missing.length === 0, missing };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { CUES } from "./cues";
+import { createVoiceCoach } from "./voice";
+import type { Speaker } from "./voice";
+
+/** Records what would have been said; `speaking` is set by the test. */
+function fakeSpeaker() {
+  const said: { text: string; rate: number }[] = [];
+  const speaker: Speaker & { said: typeof said; cancels: number; speaking: boolean } = {
+    said, cancels: 0, speaking: false,
+    speak(text, rate) { said.push({ text, rate }); },
+    cancel() { this.cancels++; this.speaking = false; },
+  };
+  return speaker;
+}
+
+const texts = (s: ReturnType<typeof fakeSpeaker>) => s.said.map(l => l.text);
+const SAG = CUES.plank_sag.text, LEGS = CUES.plank_legs.text;
+
+describe("createVoiceCoach", () => {
+  it("speaks the top cue in its short spoken form", () => {
+    const s = fakeSpeaker();
+    createVoiceCoach(s).cues([SAG, LEGS], 0);
+    expect(s.said).toEqual([{ text: CUES.plank_sag.spoken, rate: 1 }]);
+  });
+
+  it("leaves a gap between cues and doesn't repeat one too soon", () => {
+    const s = fakeSpeaker();
+    const coach = createVoiceCoach(s, undefined, { cueGapMs: 3000, repeatMs: 12000 });
+    coach.cues([SAG], 0);
+    coach.cues([LEGS], 2000);
+    coach.cues([LEGS], 3000);
+    coach.cues([SAG], 6000);
+    coach.cues([SAG], 20_000);
+    expect(texts(s)).toEqual([CUES.plank_sag.spoken, CUES.plank_legs.spoken, CUES.plank_sag.spoken, CUES.plank_sag.spoken]);
+  });
+
+  it("holds a repeated cue back until repeatMs has passed", () => {
+    const s = fakeSpeaker();
+    const coach = createVoiceCoach(s, undefined, { cueGapMs: 3000, repeatMs: 12000 });
+    coach.cues([SAG], 0);
+    coach.cues([SAG], 5000);
+    coach.cues([SAG], 11_999);
+    coach.cues([SAG], 12_000);
+    expect(texts(s)).toEqual([CUES.plank_sag.spoken, CUES.plank_sag.spoken]);
+  });
+
+  it("says a cleared cue again as soon as it comes back", () => {
+    const s = fakeSpeaker();
+    const coach = createVoiceCoach(s);
+    coach.cues([SAG], 0);
+    coach.cues([], 1000);
+    coach.cues([SAG], 4000);
+    expect(texts(s)).toHaveLength(2);
+  });
+
+  it("doesn't talk over itself with cues", () => {
+    const s = fakeSpeaker();
+    const coach = createVoiceCoach(s);
+    s.speaking = true;
+    coach.cues([SAG], 10_000);
+    expect(s.said).toEqual([]);
+  });
+
+  it("lets counts and countdowns cut off a cue", () => {
+    const s = fakeSpeaker();
+    const coach = createVoiceCoach(s);
+    coach.cues([SAG], 0);
+    s.speaking = true;
+    coach.announce("3", 100);
+    coach.hold(10, false, 200);
+    coach.hold(10, false, 300);
+    coach.hold(9, false, 1200);
+    coach.hold(3, false, 7200);
+    coach.hold(0, true, 10_200);
+    expect(texts(s)).toEqual([CUES.plank_sag.spoken, "3", "Ten seconds", "3", "Done"]);
+    expect(s.cancels).toBe(4);
+  });
+
+  it("keeps cues quiet right after an announcement", () => {
+    const s = fakeSpeaker();
+    const coach = createVoiceCoach(s, undefined, { cueGapMs: 3000 });
+    coach.announce("1", 0);
+    coach.cues([SAG], 1000);
+    coach.cues([SAG], 3000);
+    expect(texts(s)).toEqual(["1", CUES.plank_sag.spoken]);
+  });
+
+  it("says nothing while muted and stops talking when muted", () => {
+    const s = fakeSpeaker();
+    const coach = createVoiceCoach(s, { muted: true, rate: 1 });
+    coach.cues([SAG], 0);
+    coach.announce("3", 0);
+    coach.hold(3, false, 0);
+    expect(s.said).toEqual([]);
+
+    coach.setSettings({ muted: false, rate: 1.5 });
+    coach.announce("4", 100);
+    expect(s.said).toEqual([{ text: "4", rate: 1.5 }]);
+
+    s.speaking = true;
+    coach.setSettings({ muted: true, rate: 1.5 });
+    expect(s.speaking).toBe(false);
+    coach.announce("5", 200);
+    expect(texts(s)).toEqual(["4"]);
+  });
+
+  it("runs silently without a speaker", () => {
+    const coach = createVoiceCoach(null);
+    expect(() => { coach.cues([SAG], 0); coach.announce("1", 0); coach.hold(0, true, 0); coach.reset(); }).not.toThrow();
+  });
+});
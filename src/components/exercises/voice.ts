@@ -0,0 +1,98 @@
+import { cueMeta } from "./cueEngine";
+
+/** Anything that can say a line out loud; swap in a fake to run without audio. */
+export interface Speaker {
+  /** Starts speaking; `rate` is 1 for normal speed. */
+  speak(text: string, rate: number): void;
+  /** Stops whatever is being said. */
+  cancel(): void;
+  readonly speaking: boolean;
+}
+
+export type VoiceSettings = { muted: boolean; rate: number };
+
+export const DEFAULT_VOICE: VoiceSettings = { muted: false, rate: 1 };
+
+/** Browser speech synthesis, or null where it isn't available. */
+export function createWebSpeechSpeaker(): Speaker | null {
+  if (typeof window === "undefined" || !("speechSynthesis" in window)) return null;
+  const synth = window.speechSynthesis;
+  return {
+    speak(text, rate) {
+      const u = new SpeechSynthesisUtterance(text);
+      u.rate = rate;
+      synth.speak(u);
+    },
+    cancel() {
+      synth.cancel();
+    },
+    get speaking() {
+      return synth.speaking;
+    },
+  };
+}
+
+/** Hold seconds remaining that get called out. */
+const COUNTDOWN_AT = new Set([10, 3, 2, 1]);
+
+/**
+ * Speaks the coaching a user can't read from across the room: the top cue,
+ * rep counts and the end of a hold. Counts and countdowns cut off a cue;
+ * cues wait their turn and don't repeat too often.
+ */
+export function createVoiceCoach(speaker: Speaker | null, settings: VoiceSettings = DEFAULT_VOICE,
+  { cueGapMs = 3000, repeatMs = 12000 } = {}) {
+  let current = settings;
+  let lastCue: string | null = null;
+  let lastCueAt = -Infinity;
+  let lastSpokeAt = -Infinity;
+  let lastRemaining: number | null = null;
+
+  function say(text: string, now: number, interrupt: boolean) {
+    if (!speaker || current.muted) return;
+    if (interrupt) speaker.cancel();
+    speaker.speak(text, current.rate);
+    lastSpokeAt = now;
+  }
+
+  /** Feed the debounced cue list (most important first) every frame. */
+  function cues(shown: string[], now = performance.now()) {
+    const top = shown[0];
+    if (!top) { lastCue = null; return; }
+    if (speaker?.speaking || now - lastSpokeAt < cueGapMs) return;
+    if (top === lastCue && now - lastCueAt < repeatMs) return;
+    lastCue = top;
+    lastCueAt = now;
+    say(cueMeta(top).spoken, now, false);
+  }
+
+  /** Says something now, cutting off any cue: rep counts ("3", "left 3"), reminders. */
+  function announce(text: string, now = performance.now()) {
+    say(text, now, true);
+  }
+
+  /** Feed the hold clock each frame; calls out 10, 3, 2, 1 and the finish. */
+  function hold(remainingSec: number, done: boolean, now = performance.now()) {
+    const remaining = done ? 0 : remainingSec;
+    if (remaining === lastRemaining) return;
+    lastRemaining = remaining;
+    if (done) say("Done", now, true);
+    else if (COUNTDOWN_AT.has(remaining)) say(remaining === 10 ? "Ten seconds" : String(remaining), now, true);
+  }
+
+  function setSettings(s: VoiceSettings) {
+    current = s;
+    if (s.muted) speaker?.cancel();
+  }
+
+  function reset() {
+    speaker?.cancel();
+    lastCue = null;
+    lastCueAt = lastSpokeAt = -Infinity;
+    lastRemaining = null;
+  }
+
+  return { cues, announce, hold, setSettings, reset };
+}
+
+export type VoiceCoach = ReturnType<typeof createVoiceCoach>;
@@ -0,0 +1,192 @@
+import type { SymptomData } from "../SymptomForm";
+
+/** Bump whenever a rule, threshold or wording changes so saved results can be traced. */
+export const RULESET_VERSION = "2.1.0";
+
+/** Everything a rule can look at: the symptom form plus session context. */
+export type ScreeningFacts = SymptomData & {
+  /** Last session's check-in showed a flare-up (see session/flare.ts). */
+  recentFlare: boolean;
+};
+
+export type Fact = keyof ScreeningFacts;
+
+export type Condition =
+  | { fact: Fact; op: "is"; value: boolean | string }
+  | { fact: Fact; op: "gte" | "lt"; value: number }
+  | { any: Condition[] }
+  | { all: Condition[] }
+  | { always: true };
+
+export type Tone = "good" | "warn" | "bad";
+
+export type ScreeningRule = {
+  id: string;
+  /** Plain-language statement of the rule for clinical review. */
+  description: string;
+  when: Condition;
+  tone: Tone;
+  label: string;
+  notes: string[];
+};
+
+/** Under 6 weeks counts as acute. */
+export const ACUTE_MAX_DAYS = 42;
+/** Worst pain at or above this means go gentle. */
+export const HIGH_PAIN = 8;
+/** New back pain below or from these ages is a classic screening flag. */
+export const YOUNG_ONSET_AGE = 20;
+export const OLDER_ONSET_AGE = 50;
+/** Fragility-fracture risk climbs steeply with steroid use past this age. */
+export const FRACTURE_RISK_AGE = 70;
+
+const URGENT = "See a clinician urgently";
+const SOON = "See a clinician soon";
+const SEEK_CARE = "Seek medical assessment before continuing exercise.";
+const EMERGENCY = "These can be signs of cauda equina syndrome: go to an emergency department today.";
+const BOOK_VISIT = "Not an emergency, but book an appointment in the next few days before building up exercise.";
+
+const yes = (fact: Fact): Condition => ({ fact, op: "is", value: true });
+
+/**
+ * Ordered by priority: the first matching rule sets the outcome, and notes
+ * from every other matching rule with the same label are added to it.
+ * The last two rules split on duration, so some rule matches any complete
+ * form; NO_MATCH_RULE covers anything else.
+ */
+export const SCREENING_RULES: ScreeningRule[] = [
+  {
+    id: "red-flag-cauda-equina",
+    description: "Saddle numbness, new bladder or bowel changes, or numbness in both legs.",
+    when: { any: [yes("saddleAnaesthesia"), yes("bladderBowel"), yes("bilateralNumbness")] },
+    tone: "bad", label: URGENT,
+    notes: [EMERGENCY],
+  },
+  {
+    id: "red-flag-progressive-weakness",
+    description: "Leg weakness that is getting worse.",
+    when: yes("progressiveWeakness"),
+    tone: "bad", label: URGENT,
+    notes: ["Worsening weakness means a nerve is under pressure and needs same-day assessment.", SEEK_CARE],
+  },
+  {
+    id: "red-flag-numbness",
+    description: "Numbness or weakness in the legs.",
+    when: yes("numbness"),
+    tone: "bad", label: URGENT,
+    notes: ["Leg numbness or weakness needs a neurological check.", SEEK_CARE],
+  },
+  {
+    id: "red-flag-cancer",
+    description: "Back pain with a history of cancer.",
+    when: yes("cancerHistory"),
+    tone: "bad", label: URGENT,
+    notes: ["New back pain after cancer should be checked to rule out spread to the spine.", SEEK_CARE],
+  },
+  {
+    id: "red-flag-weight-loss",
+    description: "Significant unexplained weight loss with back pain.",
+    when: { all: [yes("weightLoss"), yes("weightLossSignificant")] },
+    tone: "bad", label: URGENT,
+    notes: ["Unexplained weight loss with back pain needs investigating.", SEEK_CARE],
+  },
+  {
+    id: "red-flag-night-pain",
+    description: "Night pain not eased by rest or changing position.",
+    when: { all: [yes("nightPain"), yes("nightPainUnrelenting")] },
+    tone: "bad", label: URGENT,
+    notes: ["Constant pain at night that nothing eases is not typical of mechanical back pain.", SEEK_CARE],
+  },
+  {
+    id: "red-flag-older-onset",
+    description: `Age ${OLDER_ONSET_AGE}+ with night pain or unexplained weight loss.`,
+    when: { all: [{ fact: "age", op: "gte", value: OLDER_ONSET_AGE }, { any: [yes("nightPain"), yes("weightLoss")] }] },
+    tone: "bad", label: URGENT,
+    notes: ["At this age, night pain or weight loss alongside back pain should be checked for serious causes.", SEEK_CARE],
+  },
+  {
+    id: "red-flag-fever",
+    description: "Fever or feeling generally unwell with back pain.",
+    when: yes("fever"),
+    tone: "bad", label: URGENT,
+    notes: ["Fever with back pain should be assessed for infection.", SEEK_CARE],
+  },
+  {
+    id: "red-flag-infection-risk",
+    description: "Night pain with injecting drug use or long-term steroids.",
+    when: { all: [yes("nightPain"), { any: [yes("ivDrugUse"), yes("steroidUse")] }] },
+    tone: "bad", label: URGENT,
+    notes: ["Night pain with a raised infection risk should be assessed for spinal infection.", SEEK_CARE],
+  },
+  {
+    id: "red-flag-trauma",
+    description: "Back pain after recent trauma (fall, collision).",
+    when: yes("trauma"),
+    tone: "bad", label: URGENT,
+    notes: ["Pain after trauma should be checked for injury.", SEEK_CARE],
+  },
+  {
+    id: "red-flag-fracture-risk",
+    description: `Long-term steroid use at age ${FRACTURE_RISK_AGE}+.`,
+    when: { all: [yes("steroidUse"), { fact: "age", op: "gte", value: FRACTURE_RISK_AGE }] },
+    tone: "bad", label: URGENT,
+    notes: ["Steroids and age both thin bones; new back pain should be checked for a fracture.", SEEK_CARE],
+  },
+  {
+    id: "risk-factors",
+    description: "Night pain, weight loss, steroid use or injecting drug use without other red flags.",
+    when: { any: [yes("nightPain"), yes("weightLoss"), yes("steroidUse"), yes("ivDrugUse")] },
+    tone: "warn", label: SOON,
+    notes: ["Some of your answers raise the chance of a less common cause of back pain.", BOOK_VISIT],
+  },
+  {
+    id: "onset-age",
+    description: `New back pain under age ${YOUNG_ONSET_AGE} or from age ${OLDER_ONSET_AGE}.`,
+    when: { all: [
+      { fact: "durationDays", op: "lt", value: ACUTE_MAX_DAYS },
+      { any: [{ fact: "age", op: "lt", value: YOUNG_ONSET_AGE }, { fact: "age", op: "gte", value: OLDER_ONSET_AGE }] },
+    ] },
+    tone: "warn", label: SOON,
+    notes: ["New back pain at your age is worth a routine check.", BOOK_VISIT],
+  },
+  {
+    id: "recent-flare",
+    description: "Pain rose or symptoms spread into the leg after the last session.",
+    when: yes("recentFlare"),
+    tone: "warn", label: "Flare-up — plan eased back",
+    notes: ["Your last session flared symptoms up, so the next plan uses fewer, easier moves.", "If leg symptoms spread or pain keeps rising, contact a clinician."],
+  },
+  {
+    id: "high-pain",
+    description: `Worst pain in the last 24h is ${HIGH_PAIN}/10 or more.`,
+    when: { fact: "painWorst", op: "gte", value: HIGH_PAIN },
+    tone: "warn", label: "High pain — go gentle",
+    notes: ["Use gentle mobility only, keep sessions short.", "If pain persists/worsens, contact a clinician."],
+  },
+  {
+    id: "acute-mechanical",
+    description: `No red flags and pain for under ${ACUTE_MAX_DAYS / 7} weeks.`,
+    when: { fact: "durationDays", op: "lt", value: ACUTE_MAX_DAYS },
+    tone: "good", label: "Likely simple mechanical back pain",
+    notes: ["Try daily gentle mobility + light core work.", "Gradually increase activity; avoid prolonged rest."],
+  },
+  {
+    id: "persistent",
+    description: `No red flags and pain for ${ACUTE_MAX_DAYS / 7} weeks or more.`,
+    when: { fact: "durationDays", op: "gte", value: ACUTE_MAX_DAYS },
+    tone: "good", label: "Persistent back pain pattern",
+    notes: ["Consider consistent graded activity + stress/sleep support.", "Book a non-urgent physio/PCP visit for a plan."],
+  },
+];
+
+/**
+ * Outcome when no rule matches: a gap in the rules, or an answer they don't
+ * expect (such as a blank duration). Errs towards getting checked.
+ */
+export const NO_MATCH_RULE: ScreeningRule = {
+  id: "no-match",
+  description: "No other rule matched the answers.",
+  when: { always: true },
+  tone: "warn", label: SOON,
+  notes: ["We couldn't match your answers to a screening outcome, so can't say exercise is safe to start.", BOOK_VISIT],
+};
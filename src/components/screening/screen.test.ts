@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { SymptomData } from "../SymptomForm";
+import { NO_MATCH_RULE, RULESET_VERSION, SCREENING_RULES } from "./rules";
+import type { ScreeningRule } from "./rules";
+import { evaluate, screen } from "./screen";
+import { DEFAULT_SYMPTOMS } from "./symptoms";
+
+const rule = (id: string) => SCREENING_RULES.find(r => r.id === id)!;
+const run = (answers: Partial<SymptomData>, recentFlare = false) =>
+  screen({ ...DEFAULT_SYMPTOMS, ...answers }, { recentFlare });
+
+// Answers on top of the form's defaults (7 days of pain, age 40, worst pain 6), and the rule that should decide
+const CASES: [string, Partial<SymptomData>, boolean?][] = [
+  ["red-flag-cauda-equina", { saddleAnaesthesia: true }],
+  ["red-flag-cauda-equina", { bladderBowel: true }],
+  ["red-flag-cauda-equina", { bilateralNumbness: true }],
+  ["red-flag-progressive-weakness", { progressiveWeakness: true }],
+  ["red-flag-numbness", { numbness: true }],
+  ["red-flag-cancer", { cancerHistory: true }],
+  ["red-flag-weight-loss", { weightLoss: true, weightLossSignificant: true }],
+  ["red-flag-night-pain", { nightPain: true, nightPainUnrelenting: true }],
+  ["red-flag-older-onset", { age: 50, nightPain: true }],
+  ["red-flag-older-onset", { age: 64, weightLoss: true, durationDays: 90 }],
+  ["red-flag-fever", { fever: true }],
+  ["red-flag-infection-risk", { nightPain: true, ivDrugUse: true }],
+  ["red-flag-infection-risk", { nightPain: true, steroidUse: true }],
+  ["red-flag-trauma", { trauma: true }],
+  ["red-flag-fracture-risk", { steroidUse: true, age: 70 }],
+  ["risk-factors", { nightPain: true }],
+  ["risk-factors", { weightLoss: true }],
+  ["risk-factors", { steroidUse: true, age: 69, durationDays: 90 }],
+  ["risk-factors", { ivDrugUse: true }],
+  ["onset-age", { age: 19 }],
+  ["onset-age", { age: 50 }],
+  ["recent-flare", {}, true],
+  ["recent-flare", { painWorst: 9 }, true],
+  ["high-pain", { painWorst: 8 }],
+  ["acute-mechanical", {}],
+  ["acute-mechanical", { age: 20, durationDays: 41 }],
+  ["persistent", { durationDays: 42 }],
+  ["persistent", { age: 50, durationDays: 60 }],
+];
+
+describe("screen", () => {
+  it.each(CASES)("%s decides for %j", (id, answers, recentFlare) => {
+    const r = run(answers, recentFlare);
+    expect(r.triggered[0]).toBe(id);
+    expect(r.tone).toBe(rule(id).tone);
+    expect(r.label).toBe(rule(id).label);
+    expect(r.notes).toEqual(expect.arrayContaining(rule(id).notes));
+    expect(r.version).toBe(RULESET_VERSION);
+  });
+
+  it("has a case for every rule", () => {
+    expect(new Set(CASES.map(c => c[0]))).toEqual(new Set(SCREENING_RULES.map(r => r.id)));
+  });
+
+  it("lets any red flag outrank everything else", () => {
+    const r = run({ trauma: true, age: 55, painWorst: 10, weightLoss: true }, true);
+    expect(r.tone).toBe("bad");
+    expect(r.triggered).toEqual(["red-flag-older-onset", "red-flag-trauma", "risk-factors", "onset-age", "recent-flare", "high-pain", "acute-mechanical"]);
+  });
+
+  it("adds notes only from rules sharing the deciding label", () => {
+    const r = run({ bladderBowel: true, fever: true, nightPain: true });
+    expect(r.triggered.slice(0, 2)).toEqual(["red-flag-cauda-equina", "red-flag-fever"]);
+    expect(r.notes).toEqual([...rule("red-flag-cauda-equina").notes, ...rule("red-flag-fever").notes]);
+    expect(r.notes).not.toEqual(expect.arrayContaining(rule("risk-factors").notes));
+  });
+
+  it("keeps each shared note once", () => {
+    const r = run({ cancerHistory: true, fever: true });
+    expect(r.notes.filter(n => n === "Seek medical assessment before continuing exercise.")).toHaveLength(1);
+  });
+
+  it("falls back to getting checked when no rule matches", () => {
+    const blank = run({ durationDays: NaN });
+    expect(blank).toEqual({
+      tone: NO_MATCH_RULE.tone, label: NO_MATCH_RULE.label, notes: NO_MATCH_RULE.notes,
+      triggered: ["no-match"], version: RULESET_VERSION,
+    });
+    expect(screen(DEFAULT_SYMPTOMS, {}, []).triggered).toEqual(["no-match"]);
+  });
+});
+
+describe("evaluate", () => {
+  const facts = { ...DEFAULT_SYMPTOMS, recentFlare: false };
+  const cases: [ScreeningRule["when"], boolean][] = [
+    [{ always: true }, true],
+    [{ fact: "fever", op: "is", value: false }, true],
+    [{ fact: "location", op: "is", value: "low" }, true],
+    [{ fact: "age", op: "gte", value: 40 }, true],
+    [{ fact: "age", op: "gte", value: 41 }, false],
+    [{ fact: "age", op: "lt", value: 40 }, false],
+    [{ fact: "location", op: "lt", value: 1 }, false],
+    [{ any: [] }, false],
+    [{ all: [] }, true],
+    [{ any: [{ fact: "fever", op: "is", value: true }, { always: true }] }, true],
+    [{ all: [{ fact: "fever", op: "is", value: true }, { always: true }] }, false],
+  ];
+  it.each(cases)("%j is %s", (cond, want) => {
+    expect(evaluate(cond, facts)).toBe(want);
+  });
+});
@@ -0,0 +1,40 @@
+import type { SymptomData } from "../SymptomForm";
+import { NO_MATCH_RULE, RULESET_VERSION, SCREENING_RULES } from "./rules";
+import type { Condition, ScreeningFacts, ScreeningRule, Tone } from "./rules";
+
+export type ScreeningResult = {
+  tone: Tone;
+  label: string;
+  notes: string[];
+  /** Ids of every rule that matched, in priority order; just NO_MATCH_RULE's if none did. */
+  triggered: string[];
+  version: string;
+};
+
+export function evaluate(cond: Condition, facts: ScreeningFacts): boolean {
+  if ("always" in cond) return true;
+  if ("any" in cond) return cond.any.some(c => evaluate(c, facts));
+  if ("all" in cond) return cond.all.every(c => evaluate(c, facts));
+  const v = facts[cond.fact];
+  switch (cond.op) {
+    case "is": return v === cond.value;
+    case "gte": return typeof v === "number" && v >= cond.value;
+    case "lt": return typeof v === "number" && v < cond.value;
+  }
+}
+
+/** Pure triage: symptoms (+ session context) in, structured outcome out. */
+export function screen(
+  symptoms: SymptomData,
+  context: { recentFlare?: boolean } = {},
+  rules: ScreeningRule[] = SCREENING_RULES,
+): ScreeningResult {
+  const facts: ScreeningFacts = { ...symptoms, recentFlare: !!context.recentFlare };
+  const found = rules.filter(r => evaluate(r.when, facts));
+  // Called while rendering, so a gap in the rules mustn't throw
+  const matched = found.length ? found : [NO_MATCH_RULE];
+  const top = matched[0];
+
+  const notes = [...new Set(matched.filter(r => r.label === top.label).flatMap(r => r.notes))];
+  return { tone: top.tone, label: top.label, notes, triggered: matched.map(r => r.id), version: RULESET_VERSION };
+}
@@ -0,0 +1,13 @@
+import type { SymptomData } from "../SymptomForm";
+
+/** Starting answers for the symptom form; every red flag starts unticked. */
+export const DEFAULT_SYMPTOMS: SymptomData = {
+  painNow: 3, painWorst: 6, location: "low", durationDays: 7, age: 40,
+  numbness: false, bilateralNumbness: false, progressiveWeakness: false,
+  saddleAnaesthesia: false, bladderBowel: false,
+  fever: false, trauma: false,
+  nightPain: false, nightPainUnrelenting: false,
+  weightLoss: false, weightLossSignificant: false,
+  cancerHistory: false, steroidUse: false, ivDrugUse: false,
+  deskHours: 6, sleepHours: 7, stress: "med"
+};
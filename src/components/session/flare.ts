@@ -0,0 +1,48 @@
+import type { SessionItem } from "../PlanModal";
+import type { SessionRecord } from "./store";
+
+/** When a session counts as having flared symptoms up. */
+export type FlareRule = {
+  /** Rise in 0–10 pain from the pre- to the post-session check-in. */
+  painIncrease: number;
+  /** New leg symptoms after the session count on their own. */
+  legSymptoms: boolean;
+};
+
+export const FLARE_RULE: FlareRule = { painIncrease: 2, legSymptoms: true };
+
+export type Flare = { sessionId: string; at: number; reasons: string[] };
+
+export function detectFlare(rec: SessionRecord, rule: FlareRule = FLARE_RULE): Flare | null {
+  const before = rec.checkIn?.before, after = rec.checkIn?.after;
+  if (!after) return null;
+
+  const reasons: string[] = [];
+  if (before && after.pain - before.pain >= rule.painIncrease) {
+    reasons.push(`Pain rose from ${before.pain} to ${after.pain} during your last session.`);
+  }
+  if (rule.legSymptoms && after.legSymptoms && !before?.legSymptoms) {
+    reasons.push("Symptoms spread into your leg after your last session.");
+  }
+  return reasons.length ? { sessionId: rec.id, at: after.at, reasons } : null;
+}
+
+/** A flare from the most recent session; one calm session clears it. */
+export function currentFlare(sessions: SessionRecord[], rule: FlareRule = FLARE_RULE): Flare | null {
+  const last = sessions[sessions.length - 1];
+  return last ? detectFlare(last, rule) : null;
+}
+
+// Moves that load the back the most are dropped until things settle
+const DROP_ON_FLARE = ["side plank", "hinge"];
+
+/** Eases a plan back after a flare: drops the heaviest moves and cuts exercise volume. */
+export function regressPlan(items: SessionItem[]): SessionItem[] {
+  return items
+    .filter(i => !DROP_ON_FLARE.some(d => i.name.toLowerCase().includes(d)))
+    .map(i => i.kind !== "exercise" ? i : {
+      ...i,
+      reps: i.reps && Math.max(3, Math.round(i.reps * 0.6)),
+      durationSec: i.durationSec && Math.max(10, Math.round(i.durationSec * 0.6)),
+    });
+}
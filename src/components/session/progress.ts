@@ -0,0 +1,72 @@
+import type { SessionRecord } from "./store";
+
+export type Granularity = "day" | "week";
+
+export type Point = { t: number; y: number };
+export type Series = { label: string; points: Point[] };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Local midnight of the day, or of the Monday starting the week. */
+export function bucketStart(ts: number, g: Granularity): number {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  if (g === "week") d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+}
+
+function groupBy(sessions: SessionRecord[], g: Granularity) {
+  const groups = new Map<number, SessionRecord[]>();
+  for (const s of sessions) {
+    const k = bucketStart(s.startedAt, g);
+    groups.set(k, [...(groups.get(k) ?? []), s]);
+  }
+  return [...groups.entries()].sort((a, b) => a[0] - b[0]);
+}
+
+const avg = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+/** Average form score per exercise (plan item name) per bucket. */
+export function formScoreSeries(sessions: SessionRecord[], g: Granularity): Series[] {
+  const byName = new Map<string, Point[]>();
+  for (const [t, group] of groupBy(sessions, g)) {
+    const scores = new Map<string, number[]>();
+    for (const r of group.flatMap(s => s.items)) {
+      if (r.scoreAvg === null) continue;
+      scores.set(r.item.name, [...(scores.get(r.item.name) ?? []), r.scoreAvg]);
+    }
+    for (const [name, ys] of scores) {
+      byName.set(name, [...(byName.get(name) ?? []), { t, y: Math.round(avg(ys)) }]);
+    }
+  }
+  return [...byName.entries()].map(([label, points]) => ({ label, points }));
+}
+
+/** Total reps and good-form hold seconds completed per bucket. */
+export function volumeSeries(sessions: SessionRecord[], g: Granularity): Series[] {
+  const reps: Point[] = [], hold: Point[] = [];
+  for (const [t, group] of groupBy(sessions, g)) {
+    const items = group.flatMap(s => s.items);
+    reps.push({ t, y: items.reduce((a, r) => a + (r.reps ?? 0), 0) });
+    hold.push({ t, y: items.reduce((a, r) => a + (r.holdGoodSec ?? 0), 0) });
+  }
+  return [{ label: "Reps", points: reps }, { label: "Hold seconds", points: hold }];
+}
+
+/** Average reported pain (0–10) per bucket, from the symptoms saved with each session. */
+export function painSeries(sessions: SessionRecord[], g: Granularity): Series[] {
+  const now: Point[] = [], worst: Point[] = [];
+  for (const [t, group] of groupBy(sessions, g)) {
+    const withSymptoms = group.flatMap(s => s.symptoms ? [s.symptoms] : []);
+    if (!withSymptoms.length) continue;
+    now.push({ t, y: avg(withSymptoms.map(s => s.painNow)) });
+    worst.push({ t, y: avg(withSymptoms.map(s => s.painWorst)) });
+  }
+  return [{ label: "Pain now", points: now }, { label: "Worst pain", points: worst }];
+}
+
+/** Span covered by the sessions, in days. */
+export function historySpanDays(sessions: SessionRecord[]): number {
+  if (!sessions.length) return 0;
+  return Math.round((sessions[sessions.length - 1].startedAt - sessions[0].startedAt) / DAY_MS);
+}
@@ -0,0 +1,175 @@
+import { useSyncExternalStore } from "react";
+import type { SessionItem } from "../PlanModal";
+import { DEFAULT_SYMPTOMS } from "../screening/symptoms";
+import type { SymptomData } from "../SymptomForm";
+import type { Side } from "../exercises/angles";
+import type { BodyProfile } from "../exercises/body";
+import type { DeskLogEntry } from "../exercises/desk";
+import { DEFAULT_VOICE } from "../exercises/voice";
+import type { VoiceSettings } from "../exercises/voice";
+import { DEFAULT_DETECTOR } from "../camera/detectorConfig";
+import type { DetectorSettings } from "../camera/detectorConfig";
+
+/** Per-side breakdown for one-sided moves. */
+export type SideResult = { scoreAvg: number | null; reps?: number; holdGoodSec?: number };
+
+export type ItemResult = {
+  item: SessionItem;
+  /** Null when the step wasn't vision-tracked or no frame was scored. */
+  scoreAvg: number | null;
+  scoreMin: number | null;
+  reps?: number;
+  holdGoodSec?: number;
+  holdTotalSec?: number;
+  /** Most frequent cues, most frequent first. */
+  topCues: string[];
+  /** Only set when the scorer reported which side was working. */
+  sides?: Partial<Record<Side, SideResult>>;
+};
+
+export type CheckIn = {
+  /** 0–10 */
+  pain: number;
+  /** Pain, tingling or numbness spreading into the leg. */
+  legSymptoms: boolean;
+  at: number;
+};
+
+export type SessionRecord = {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  plan: SessionItem[];
+  items: ItemResult[];
+  /** Latest symptoms entered in the plan form when the session finished. */
+  symptoms: SymptomData | null;
+  /** Quick pain check before and after; missing on sessions saved before check-ins existed. */
+  checkIn?: { before?: CheckIn; after?: CheckIn };
+};
+
+const SESSIONS_KEY = "backpaincoach.sessions.v1";
+const SYMPTOMS_KEY = "backpaincoach.symptoms.v1";
+const BODY_KEY = "backpaincoach.body.v1";
+const DESK_KEY = "backpaincoach.desk.v1";
+const VOICE_KEY = "backpaincoach.voice.v1";
+const DETECTOR_KEY = "backpaincoach.detector.v1";
+const MAX_DESK_DAYS = 90;
+const MAX_SESSIONS = 200;
+const CHANGE_EVENT = "backpaincoach:sessions";
+
+function read<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (e) {
+    console.error(`Could not read ${key}`, e);
+    return fallback;
+  }
+}
+
+function write(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Could not save ${key}`, e);
+  }
+}
+
+/** Past sessions, oldest first. */
+export function loadSessions(): SessionRecord[] {
+  return read<SessionRecord[]>(SESSIONS_KEY, []);
+}
+
+export function saveSession(rec: SessionRecord) {
+  write(SESSIONS_KEY, [...loadSessions(), rec].slice(-MAX_SESSIONS));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+export function clearSessions() {
+  localStorage.removeItem(SESSIONS_KEY);
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+export function loadSymptoms(): SymptomData | null {
+  const saved = read<Partial<SymptomData> | null>(SYMPTOMS_KEY, null);
+  return saved && { ...DEFAULT_SYMPTOMS, ...saved };
+}
+
+export function saveSymptoms(s: SymptomData) {
+  write(SYMPTOMS_KEY, s);
+}
+
+/** Body proportions from the last calibration; null until the user has calibrated. */
+export function loadBodyProfile(): BodyProfile | null {
+  return read<BodyProfile | null>(BODY_KEY, null);
+}
+
+export function saveBodyProfile(p: BodyProfile) {
+  write(BODY_KEY, p);
+}
+
+export function loadVoiceSettings(): VoiceSettings {
+  return { ...DEFAULT_VOICE, ...read<Partial<VoiceSettings>>(VOICE_KEY, {}) };
+}
+
+export function saveVoiceSettings(v: VoiceSettings) {
+  write(VOICE_KEY, v);
+}
+
+export function loadDetectorSettings(): DetectorSettings {
+  return { ...DEFAULT_DETECTOR, ...read<Partial<DetectorSettings>>(DETECTOR_KEY, {}) };
+}
+
+export function saveDetectorSettings(d: DetectorSettings) {
+  write(DETECTOR_KEY, d);
+}
+
+/** Desk posture time per local day (YYYY-MM-DD). */
+export type DeskLog = Record<string, DeskLogEntry>;
+
+export function dayKey(at = Date.now()) {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+export function loadDeskLog(): DeskLog {
+  return read<DeskLog>(DESK_KEY, {});
+}
+
+/** Adds time to today's totals and returns them. */
+export function addDeskTime(t: DeskLogEntry, at = Date.now()): DeskLogEntry {
+  const log = loadDeskLog();
+  const key = dayKey(at);
+  const prev = log[key] ?? { goodMs: 0, poorMs: 0, breaks: 0 };
+  const today = { goodMs: prev.goodMs + t.goodMs, poorMs: prev.poorMs + t.poorMs, breaks: prev.breaks + t.breaks };
+  const kept = Object.keys(log).sort().slice(-(MAX_DESK_DAYS - 1)).filter(k => k !== key);
+  write(DESK_KEY, { ...Object.fromEntries(kept.map(k => [k, log[k]])), [key]: today });
+  return today;
+}
+
+// Parsed once per distinct stored string so the snapshot stays referentially stable
+let cachedRaw: string | null = null;
+let cachedSessions: SessionRecord[] = [];
+
+function snapshot() {
+  const raw = localStorage.getItem(SESSIONS_KEY);
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    cachedSessions = loadSessions();
+  }
+  return cachedSessions;
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener(CHANGE_EVENT, onChange);
+  window.addEventListener("storage", onChange); // other tabs
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange);
+    window.removeEventListener("storage", onChange);
+  };
+}
+
+/** Live list of past sessions; updates when one is saved in this or another tab. */
+export function useSessionHistory(): SessionRecord[] {
+  return useSyncExternalStore(subscribe, snapshot);
+}
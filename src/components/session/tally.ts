@@ -0,0 +1,91 @@
+import type { SessionItem } from "../PlanModal";
+import type { Side } from "../exercises/angles";
+import type { RepCount } from "../exercises/repCounter";
+import type { ItemResult, SideResult } from "./store";
+
+/** Average form scores this far apart count as a left/right asymmetry. */
+export const ASYMMETRY_GAP = 10;
+
+export type Asymmetry = { weaker: Side; gap: number };
+
+/** The weaker side when both were scored and their averages differ by ASYMMETRY_GAP or more. */
+export function asymmetry(scores: Partial<Record<Side, number | null>>): Asymmetry | null {
+  const l = scores.left, r = scores.right;
+  if (l == null || r == null || Math.abs(l - r) < ASYMMETRY_GAP) return null;
+  return { weaker: l < r ? "left" : "right", gap: Math.abs(l - r) };
+}
+
+/**
+ * Accumulates what happened during one session step: form score stats over
+ * scored frames, how often each cue came up, and reps / hold time reached.
+ */
+export function createItemTally(item: SessionItem) {
+  let sum = 0, frames = 0, min = Infinity;
+  let reps: number | undefined;
+  let hold: { good: number; total: number } | undefined;
+  const cueHits = new Map<string, number>();
+  let prevCues = new Set<string>();
+  const sides = new Map<Side, { sum: number; frames: number; reps?: number; hold?: { good: number; total: number } }>();
+  function sideOf(s: Side) {
+    let t = sides.get(s);
+    if (!t) sides.set(s, t = { sum: 0, frames: 0 });
+    return t;
+  }
+
+  /** Only pass frames where the body was fully visible. */
+  function score(s: number, cues: string[], side?: Side) {
+    sum += s; frames++; min = Math.min(min, s);
+    // Count each time a cue comes up, not every frame it stays up
+    for (const c of cues) if (!prevCues.has(c)) cueHits.set(c, (cueHits.get(c) ?? 0) + 1);
+    prevCues = new Set(cues);
+    if (side) { const t = sideOf(side); t.sum += s; t.frames++; }
+  }
+
+  // Revisiting a step starts fresh counters; keep the best effort
+  function repsDone(count: RepCount) {
+    reps = Math.max(reps ?? 0, count.total);
+    for (const side of ["left", "right"] as const) {
+      if (count[side]) sideOf(side).reps = Math.max(sideOf(side).reps ?? 0, count[side]);
+    }
+  }
+
+  /** With a side, each side keeps its own best hold and the step total is their sum. */
+  function held(goodSec: number, totalSec: number, side?: Side) {
+    if (!side) {
+      if (!hold || goodSec >= hold.good) hold = { good: goodSec, total: totalSec };
+      return;
+    }
+    const t = sideOf(side);
+    if (!t.hold || goodSec >= t.hold.good) t.hold = { good: goodSec, total: totalSec };
+    const all = [...sides.values()].flatMap(v => v.hold ? [v.hold] : []);
+    hold = { good: all.reduce((a, h) => a + h.good, 0), total: all.reduce((a, h) => a + h.total, 0) };
+  }
+
+  /** Rounded average score per side so far. */
+  function sideScores(): Partial<Record<Side, number>> {
+    const out: Partial<Record<Side, number>> = {};
+    for (const [side, t] of sides) if (t.frames) out[side] = Math.round(t.sum / t.frames);
+    return out;
+  }
+
+  function result(): ItemResult {
+    const bySide: Partial<Record<Side, SideResult>> = {};
+    for (const [side, t] of sides) {
+      bySide[side] = { scoreAvg: t.frames ? Math.round(t.sum / t.frames) : null, reps: t.reps, holdGoodSec: t.hold?.good };
+    }
+    return {
+      item,
+      scoreAvg: frames ? Math.round(sum / frames) : null,
+      scoreMin: frames ? min : null,
+      reps,
+      holdGoodSec: hold?.good,
+      holdTotalSec: hold?.total,
+      topCues: [...cueHits.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3).map(([c]) => c),
+      sides: sides.size ? bySide : undefined,
+    };
+  }
+
+  return { score, repsDone, held, sideScores, result };
+}
+
+export type ItemTally = ReturnType<typeof createItemTally>;
@@ -4,4 +4,6 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The pose worker imports the WASM backend on demand, which needs code splitting
+  worker: { format: 'es' },
 })